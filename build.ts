@@ -27,6 +27,9 @@ function libConfig(entry: string, fileName: string, minify: boolean): InlineConf
 		root,
 		configFile: false,
 		logLevel: 'warn',
+		// `worker: true` loads layout-worker.js from next to the bundle, not from the host's /assets
+		base: './',
+		worker: { rolldownOptions: { output: { entryFileNames: '[name].js' } } },
 		build: {
 			lib: {
 				entry: resolve(root, entry),
@@ -21,5 +21,12 @@ export default defineConfig({
 			use: { ...devices['Desktop Chrome'] },
 		},
 	],
-	// No webServer - tests serve their own files
+	// The feature specs load tests/fixtures/features.html, which imports the TypeScript source,
+	// so they need Vite's dev server (base '/eg-grid/'); BROWSER=none skips the config's server.open
+	webServer: {
+		command: 'pnpm exec vite --port 8888 --strictPort',
+		env: { BROWSER: 'none' },
+		url: 'http://localhost:8888/eg-grid/tests/fixtures/features.html',
+		reuseExistingServer: !process.env.CI,
+	},
 });
@@ -24,6 +24,9 @@ import { createLayoutModel } from './layout-model';
 
 let nextId = 0;
 
+/** Built-in algorithms selectable via the `algorithm` attribute ("none" disables). */
+const ALGORITHM_NAMES = ['push', 'smart-push', 'swap', 'reflow', 'no-overlap'] as const;
+
 /**
  * Parse the span (width or height in cells) from grid-column/row start+end.
  * getComputedStyle returns: "auto", "3" (line number), or "span 2".
@@ -56,12 +59,18 @@ export class EgGridElement extends HTMLElement {
 		'cell-size',
 		'gap',
 		'algorithm',
+		'compaction',
+		'max-rows',
 		'resize-handles',
 		'no-camera',
 		'no-placeholder',
+		'no-marquee',
+		'external',
 		'no-keyboard',
 		'no-accessibility',
 		'placeholder-class',
+		'link',
+		'trash',
 	];
 
 	/** The EggCore instance. Available after connectedCallback. */
@@ -74,6 +83,18 @@ export class EgGridElement extends HTMLElement {
 	private _initialized = false;
 	private _rafId = 0;
 	private _observer: MutationObserver | null = null;
+	private _coreMutations = new Set<Node>();
+	private _onCoreMutation = (e: Event): void => {
+		const node = (e as CustomEvent).detail.item as Node;
+		// A removal waiting on an async beforeCommit that was turned down
+		if (e.type === 'egg-commit-rejected') { if (node) this._coreMutations.delete(node); return; }
+		this._coreMutations.add(node);
+		// egg-item-remove fires before the removal and may be vetoed: forget nodes that stayed
+		// (unless the removal is still pending approval)
+		if (e.cancelable) queueMicrotask(() => {
+			if (node.parentNode === this && !(node instanceof Element && node.hasAttribute('data-egg-pending'))) this._coreMutations.delete(node);
+		});
+	};
 
 	connectedCallback(): void {
 		if (this._initialized) return;
@@ -109,11 +130,15 @@ export class EgGridElement extends HTMLElement {
 		const gapAttr = this.getAttribute('gap');
 		const cellSizeAttr = this.getAttribute('cell-size');
 		const algorithmAttr = this.getAttribute('algorithm');
+		const compactionAttr = this.getAttribute('compaction');
+		const maxRowsAttr = this.getAttribute('max-rows');
 		const resizeHandlesAttr = this.getAttribute('resize-handles');
+		const trashAttr = this.getAttribute('trash');
 
 		const maxColumns = columnsAttr ? parseInt(columnsAttr, 10) || 4 : this._detectColumnCount();
 		const cellSize = cellSizeAttr ? parseInt(cellSizeAttr, 10) || 120 : 0;
 		const gap = gapAttr ? parseInt(gapAttr, 10) || 0 : parseFloat(computed.columnGap) || parseFloat(computed.gap) || 0;
+		const maxRows = maxRowsAttr ? parseInt(maxRowsAttr, 10) || undefined : undefined;
 		const responsive = cellSize > 0 && !!columnsAttr;
 
 		// 3. Apply CSS shortcut attributes via inline styles.
@@ -225,6 +250,7 @@ export class EgGridElement extends HTMLElement {
 				minColumns: 1,
 				items: itemDefs,
 				canonicalPositions,
+				maxRows,
 			});
 		}
 
@@ -232,7 +258,9 @@ export class EgGridElement extends HTMLElement {
 		const options: InitOptions = {
 			styleElement: this._styleEl,
 			layoutModel: this.layoutModel ?? undefined,
-			algorithm: algorithmAttr === 'none' ? false : 'push',
+			algorithm: algorithmAttr === 'none' ? false : ALGORITHM_NAMES.find(name => name === algorithmAttr) ?? 'push',
+			maxRows,
+			compaction: compactionAttr === 'none' ? false : compactionAttr === 'left' || compactionAttr === 'up-left' ? compactionAttr : 'up',
 			keyboard: this.hasAttribute('no-keyboard') ? false : undefined,
 			accessibility: this.hasAttribute('no-accessibility') ? false : undefined,
 			camera: this.hasAttribute('no-camera') ? false : undefined,
@@ -241,6 +269,14 @@ export class EgGridElement extends HTMLElement {
 				: this.getAttribute('placeholder-class')
 					? { className: this.getAttribute('placeholder-class')! }
 					: undefined,
+			marquee: this.hasAttribute('no-marquee') ? false : undefined,
+			// external="Files text/uri-list" also accepts those native payload types
+			external: this.hasAttribute('external')
+				? this.getAttribute('external') ? { accept: this.getAttribute('external')!.split(/\s+/).filter(Boolean) } : true
+				: undefined,
+			link: this.getAttribute('link') || undefined,
+			// trash="outside" removes items dropped off the grid; any other value is a zone selector
+			trash: trashAttr ? (trashAttr === 'outside' ? { outside: true } : { zones: trashAttr }) : undefined,
 			resize: resizeHandlesAttr
 				? { handles: resizeHandlesAttr as 'corners' | 'edges' | 'all' }
 				: false,
@@ -276,6 +312,11 @@ export class EgGridElement extends HTMLElement {
 			this._observer.disconnect();
 			this._observer = null;
 		}
+		this.removeEventListener('egg-item-add', this._onCoreMutation);
+		this.removeEventListener('egg-item-remove', this._onCoreMutation);
+		this.removeEventListener('egg-transfer-out', this._onCoreMutation);
+		this.removeEventListener('egg-commit-rejected', this._onCoreMutation);
+		this._coreMutations.clear();
 
 		if (this.core) {
 			this.core.destroy();
@@ -294,15 +335,12 @@ export class EgGridElement extends HTMLElement {
 	private _observeChildren(): void {
 		this._observer = new MutationObserver((mutations) => {
 			// Only re-init when data-egg-item elements are added/removed.
-			// Ignore internal DOM changes (style elements, placeholder, aria-live regions).
+			// Ignore internal DOM changes (style elements, placeholder, aria-live regions)
+			// and items added/removed through core.addItem()/removeItem() or linked-grid transfers.
 			let itemsChanged = false;
 			for (const m of mutations) {
-				for (const node of m.addedNodes) {
-					if (node instanceof HTMLElement && node.hasAttribute('data-egg-item')) {
-						itemsChanged = true;
-					}
-				}
-				for (const node of m.removedNodes) {
+				for (const node of [...m.addedNodes, ...m.removedNodes]) {
+					if (this._coreMutations.delete(node)) continue;
 					if (node instanceof HTMLElement && node.hasAttribute('data-egg-item')) {
 						itemsChanged = true;
 					}
@@ -320,6 +358,10 @@ export class EgGridElement extends HTMLElement {
 		});
 
 		this._observer.observe(this, { childList: true });
+		this.addEventListener('egg-item-add', this._onCoreMutation);
+		this.addEventListener('egg-item-remove', this._onCoreMutation);
+		this.addEventListener('egg-transfer-out', this._onCoreMutation);
+		this.addEventListener('egg-commit-rejected', this._onCoreMutation);
 	}
 
 	private _detectColumnCount(): number {
@@ -5,47 +5,119 @@
 // ── Types ──────────────────────────────────────────────────────────────────────
 
 type GridCell = { column: number; row: number }
-type ItemRect = { id: string; column: number; row: number; width: number; height: number }
+type ItemRect = { id: string; column: number; row: number; width: number; height: number; static?: boolean }
 type ResizeHandle = 'nw' | 'ne' | 'sw' | 'se' | 'n' | 's' | 'e' | 'w'
+// `true` is the pre-direction spelling of 'up'
+type CompactionMode = 'up' | 'left' | 'up-left' | boolean
+
+// Input to a layout algorithm. `items` is a snapshot — return new rects rather than mutating.
+type LayoutRequest = { items: ItemRect[]; movedId: string; cell: GridCell; columns: number; maxRows: number; compaction: CompactionMode }
+
+// Pluggable collision strategy for the algorithm harness (see pushAlgorithm for a reference implementation)
+interface LayoutAlgorithm {
+	// Layout after moving `movedId` so its top-left sits at `cell`
+	move(req: LayoutRequest): ItemRect[]
+	// Layout after resizing `movedId` (its rect in `items` already has the new size). Defaults to move()
+	resize?(req: LayoutRequest & { colspan: number; rowspan: number }): ItemRect[]
+	// Runs after move/resize unless `compaction` is false (honour req.compaction for the direction)
+	compact?(items: ItemRect[], req: LayoutRequest): ItemRect[]
+	// Return false to reject the layout — the drop reverts and `egg-drop-invalid` fires
+	validate?(layout: ItemRect[], req: LayoutRequest): boolean
+}
 
 interface EggCore {
 	element: HTMLElement
 	phase: 'idle' | 'selected' | 'interacting'
 	interaction: { type: 'drag' | 'resize'; mode: 'pointer' | 'keyboard'; itemId: string; element: HTMLElement; columnCount: number } | null
+	// The primary (most recently selected) item; selectedItems holds the whole multi-selection
 	selectedItem: HTMLElement | null
+	readonly selectedItems: HTMLElement[]
 	cameraScrolling: boolean
-	select(item: HTMLElement | null): void
+	// Replaces the selection, or with `add` / `toggle` extends it (Shift/Ctrl-click, Shift+Alt+arrows)
+	select(item: HTMLElement | null, options?: { add?: boolean; toggle?: boolean }): void
 	deselect(): void
-	getCellFromPoint(x: number, y: number): GridCell | null
+	getCellFromPoint(x: number, y: number, extraRows?: number): GridCell | null
 	getGridInfo(): { rect: DOMRect; columns: number[]; rows: number[]; gap: number; cellWidth: number; cellHeight: number }
-	emit(event: string, detail: any): void
+	// Returns false when a listener called preventDefault() on a cancelable event (see CANCELABLE_EVENTS)
+	emit(event: string, detail: any): boolean
 	commitStyles(): void
 	baseCSS: string
 	previewCSS: string
+	// Programmatic mutations — run through the same algorithm, transitions, saveLayout and egg-layout-change as user input
+	getLayout(): ItemRect[]
+	// False when refused: missing/static item, busy grid, vetoed events or a layout past maxRows.
+	// The cell is clamped so the item stays on the grid
+	moveItem(id: string, cell: GridCell): boolean
+	// Sizes are clamped to the grid, resize.minSize/maxSize and maxRows
+	resizeItem(id: string, size: { colspan: number; rowspan: number }): boolean
+	// Rects override the current layout by id; returns false (and changes nothing) past maxRows or
+	// while a drag or resize is running
+	setLayout(items: ItemRect[], options?: { animate?: boolean }): boolean
+	// No-ops returning false unless `history` is enabled (or while a drag or resize is running)
+	undo(): boolean
+	redo(): boolean
+	// Appends `item` at `cell` (clamped to the grid, pushing others aside) or the first free slot; false if the algorithm
+	// rejects the cell (egg-drop-invalid) or it would pass maxRows (egg-layout-refused). Like removeItem,
+	// refused while a drag or resize is running
+	addItem(item: HTMLElement, options?: { cell?: GridCell; colspan?: number; rowspan?: number; animate?: boolean }): boolean
+	removeItem(id: string, options?: { compact?: boolean; animate?: boolean }): boolean
 	destroy(): void
 }
 
 interface InitOptions {
-	algorithm?: 'push' | false
-	compaction?: boolean
+	algorithm?: 'push' | 'smart-push' | 'swap' | 'reflow' | 'no-overlap' | LayoutAlgorithm | false
+	compaction?: CompactionMode
+	maxRows?: number
+	worker?: boolean | (() => Worker)
+	history?: boolean | { limit?: number; coalesce?: number }
+	// Async approval of every commit: resolve to save, reject to roll back (egg-commit-rejected).
+	// Programmatic commits (setLayout, undo/redo, addItem, removeItem, trash, transfers) wait for it.
+	beforeCommit?: (layout: ItemRect[]) => Promise<unknown>
 	resize?: { handles?: 'corners' | 'edges' | 'all'; handleSize?: number; minSize?: { colspan: number; rowspan: number }; maxSize?: { colspan: number; rowspan: number }; showSizeLabel?: boolean } | false
 	camera?: { edgeSize?: number; scrollSpeed?: number; scrollMargin?: number; settleDelay?: number } | false
 	placeholder?: { className?: string } | false
+	// Rubber-band selection from empty grid space; drawn with the placeholder class unless overridden
+	marquee?: { className?: string; threshold?: number } | false
+	// Opt-in palette drags from `data-egg-source` elements and native drag-and-drop onto the grid.
+	// Native payloads need a `data-egg-source` origin or a `DataTransfer` type listed in `accept` ('Files', 'text/uri-list', …)
+	external?: boolean | { accept?: string[] }
+	// Grids sharing a link name accept each other's items
+	link?: string
+	// Drag-to-remove: drops on `zones` (selector or elements), or anywhere off the grid with `outside`
+	trash?: { zones?: string | HTMLElement | HTMLElement[]; outside?: boolean }
 	accessibility?: false
-	pointer?: false
+	pointer?: PointerOptions | false
 	keyboard?: false
 	responsive?: { layoutModel: ResponsiveLayoutModel; cellSize?: number; gap?: number }
 	layoutModel?: ResponsiveLayoutModel
 	styleElement?: HTMLStyleElement
+	// Selector for interactive children that keep their own pointer/keyboard behaviour
+	ignore?: string
+}
+
+interface PointerOptions {
+	threshold?: number // px before a mouse/pen press becomes a drag (default 5)
+	prediction?: 'displacement' | 'velocity' | false // how the target cell leads the pointer (default 'displacement')
+	predictionThreshold?: number // 'displacement': px travelled before leading (default 30)
+	predictionLead?: number // 'displacement': lead in cells (default 0.5)
+	velocityLead?: number // 'velocity': ms of recent pointer speed to lead by, capped at one cell (default 120)
+	hysteresis?: number // extra cell fraction needed to move back against the last change (default 0.4)
+	debounce?: number // min ms between target changes (default 40)
+	longPressDelay?: number // touch: ms to hold before a drag arms; 0 uses `threshold` like a mouse (default 400)
+	longPressTolerance?: number // touch: px of movement that cancels the press and scrolls instead (default 10)
 }
 
 // The responsive layout model interface — see layout-model.ts for implementation
 interface ResponsiveLayoutModel {
 	readonly maxColumns: number
 	readonly currentColumnCount: number
+	readonly maxRows?: number
 	getLayoutForColumns(columnCount: number): Map<string, { column: number; row: number }>
-	saveLayout(columnCount: number, positions: Map<string, { column: number; row: number }>): void
+	// Returning false refuses the layout (e.g. past the model's maxRows)
+	saveLayout(columnCount: number, positions: Map<string, { column: number; row: number }>): boolean | void
 	updateItemSize(itemId: string, size: { width: number; height: number }): void
+	addItem?(item: { id: string; width: number; height: number }): void
+	removeItem?(itemId: string): void
 	setCurrentColumnCount(columnCount: number): void
 	generateAllBreakpointCSS(options: { cellSize: number; gap: number; gridSelector?: string }): string
 	subscribe(callback: () => void): () => void
@@ -83,6 +155,26 @@ function getItemId(el: HTMLElement): string {
 	return el.dataset.eggItem || el.dataset.id || el.id || ''
 }
 
+function isStatic(el: HTMLElement): boolean {
+	return el.hasAttribute('data-egg-static')
+}
+
+// Interactive children that never start drags or take keyboard shortcuts (override with `ignore`)
+const DEFAULT_IGNORE = 'input, textarea, select, button, a[href], [contenteditable]:not([contenteditable="false"])'
+
+function isIgnoredTarget(target: Element, item: HTMLElement, ignore: string): boolean {
+	const hit = target.closest(ignore)
+	return !!hit && hit !== item && item.contains(hit)
+}
+
+// With `data-egg-handle` children only those start drags; otherwise anything but ignored children does
+function canStartDrag(target: Element, item: HTMLElement, ignore: string): boolean {
+	const handle = target.closest('[data-egg-handle]')
+	if (handle && item.contains(handle)) return true
+	if (item.querySelector('[data-egg-handle]')) return false
+	return !isIgnoredTarget(target, item, ignore)
+}
+
 // ── Layout Algorithms ──────────────────────────────────────────────────────────
 
 // Shared
@@ -99,18 +191,69 @@ function layoutToCSS(items: ItemRect[], opts: { selectorPrefix?: string; selecto
 	return rules.join('\n')
 }
 
+// Drops the rules layoutToCSS (or the layout model) wrote for one item, e.g. once it moved to another grid
+function removeItemCSS(css: string, id: string): string {
+	const selector = `[data-egg-item="${id}"] `
+	return css.split('\n').filter(line => !line.trimStart().startsWith(selector)).join('\n')
+}
+
+function readItemRect(element: HTMLElement): ItemRect {
+	const style = getComputedStyle(element)
+	const rect: ItemRect = {
+		id: getItemId(element),
+		column: parseInt(style.gridColumnStart, 10) || 1,
+		row: parseInt(style.gridRowStart, 10) || 1,
+		width: parseInt(element.getAttribute('data-egg-colspan') || '1', 10) || 1,
+		height: parseInt(element.getAttribute('data-egg-rowspan') || '1', 10) || 1,
+	}
+	if (isStatic(element)) rect.static = true
+	return rect
+}
+
 function readItemsFromDOM(container: HTMLElement): ItemRect[] {
-	return Array.from(container.querySelectorAll('[data-egg-item]')).map(el => {
-		const element = el as HTMLElement
-		const style = getComputedStyle(element)
-		return {
-			id: getItemId(element),
-			column: parseInt(style.gridColumnStart, 10) || 1,
-			row: parseInt(style.gridRowStart, 10) || 1,
-			width: parseInt(element.getAttribute('data-egg-colspan') || '1', 10) || 1,
-			height: parseInt(element.getAttribute('data-egg-rowspan') || '1', 10) || 1,
-		}
-	})
+	return Array.from(container.querySelectorAll('[data-egg-item]')).map(el => readItemRect(el as HTMLElement))
+}
+
+// Occupancy index — row buckets, so collision queries only touch the rows a rect spans
+
+type OccupancyIndex = {
+	add(item: ItemRect): void
+	remove(item: ItemRect): void
+	// Items overlapping `rect`, excluding the item with the same id
+	colliders(rect: ItemRect): ItemRect[]
+	// Relocate an item, keeping its buckets in sync
+	move(item: ItemRect, column: number, row: number): void
+}
+
+function createOccupancyIndex(items: ItemRect[]): OccupancyIndex {
+	const rows = new Map<number, Set<ItemRect>>()
+	const index: OccupancyIndex = {
+		add(item) {
+			for (let r = item.row; r < item.row + item.height; r++) {
+				let bucket = rows.get(r)
+				if (!bucket) rows.set(r, bucket = new Set())
+				bucket.add(item)
+			}
+		},
+		remove(item) {
+			for (let r = item.row; r < item.row + item.height; r++) rows.get(r)?.delete(item)
+		},
+		colliders(rect) {
+			const found = new Set<ItemRect>()
+			for (let r = rect.row; r < rect.row + rect.height; r++) {
+				const bucket = rows.get(r)
+				if (bucket) for (const o of bucket) if (o.id !== rect.id && itemsOverlap(rect, o)) found.add(o)
+			}
+			return Array.from(found)
+		},
+		move(item, column, row) {
+			index.remove(item)
+			item.column = column; item.row = row
+			index.add(item)
+		},
+	}
+	for (const item of items) index.add(item)
+	return index
 }
 
 // Push algorithm
@@ -119,51 +262,316 @@ function itemsOverlap(a: ItemRect, b: ItemRect): boolean {
 	return !(a.column + a.width <= b.column || b.column + b.width <= a.column || a.row + a.height <= b.row || b.row + b.height <= a.row)
 }
 
-function pushDown(items: ItemRect[], moved: ItemRect, movedId: string, depth = 0): void {
-	if (depth > 50) return
-	const colliders = items
-		.filter(it => it.id !== movedId && it.id !== moved.id && itemsOverlap(moved, it))
-		.sort((a, b) => b.row - a.row || a.column - b.column)
-	for (const c of colliders) {
-		const newRow = moved.row + moved.height
-		if (c.row < newRow) {
-			c.row = newRow
-			pushDown(items, c, movedId, depth + 1)
-		}
+// Static items never move, so anything landing on one continues down past it
+function skipStatics(index: OccupancyIndex, item: ItemRect): void {
+	let hit: ItemRect | undefined
+	while ((hit = index.colliders(item).find(o => o.static))) index.move(item, item.column, hit.row + hit.height)
+}
+
+// Push sweep: the pusher and static items are settled first, then every item that could be hit
+// (anything reaching below the pusher's top) is settled top-to-bottom, dropping just below whatever
+// settled item it overlaps. Items only move down, so one pass resolves the whole cascade.
+// A numeric 4th argument is the old recursion depth: ignored, a fresh index is built.
+function pushDown(items: ItemRect[], moved: ItemRect, movedId: string, occupancy: OccupancyIndex | number = createOccupancyIndex(items)): void {
+	const index = typeof occupancy === 'number' ? createOccupancyIndex(items) : occupancy
+	const settled = createOccupancyIndex(items.filter(i => i === moved || i.id === movedId || i.static))
+	const pending = items
+		.filter(i => i !== moved && i.id !== movedId && !i.static && i.row + i.height > moved.row)
+		.sort((a, b) => a.row - b.row || a.column - b.column)
+	for (const item of pending) {
+		let hits: ItemRect[]
+		while ((hits = settled.colliders(item)).length) index.move(item, item.column, Math.max(...hits.map(h => h.row + h.height)))
+		settled.add(item)
 	}
 }
 
-function compactUp(items: ItemRect[], excludeId: string): void {
-	const sorted = [...items].filter(it => it.id !== excludeId).sort((a, b) => a.row - b.row || a.column - b.column)
+function compactUp(items: ItemRect[], excludeId: string, index = createOccupancyIndex(items)): boolean {
+	const sorted = [...items].filter(it => it.id !== excludeId && !it.static).sort((a, b) => a.row - b.row || a.column - b.column)
+	let changed = false
 	for (const item of sorted) {
-		let iter = 0
-		while (item.row > 1 && iter++ < 100) {
-			item.row -= 1
-			if (items.some(o => o.id !== item.id && itemsOverlap(item, o))) { item.row += 1; break }
+		let row = item.row
+		// Moving up one row only adds row - 1 to the span, so probe a single-row strip
+		while (row > 1 && !index.colliders({ ...item, row: row - 1, height: 1 }).length) row--
+		if (row !== item.row) { index.move(item, item.column, row); changed = true }
+	}
+	return changed
+}
+
+function compactLeft(items: ItemRect[], excludeId: string, index = createOccupancyIndex(items)): boolean {
+	const sorted = [...items].filter(it => it.id !== excludeId && !it.static).sort((a, b) => a.column - b.column || a.row - b.row)
+	let changed = false
+	for (const item of sorted) {
+		let column = item.column
+		while (column > 1 && !index.colliders({ ...item, column: column - 1, width: 1 }).length) column--
+		if (column !== item.column) { index.move(item, column, item.row); changed = true }
+	}
+	return changed
+}
+
+function applyCompaction(items: ItemRect[], excludeId: string, mode: CompactionMode, index = createOccupancyIndex(items)): void {
+	if (mode === 'up' || mode === true) compactUp(items, excludeId, index)
+	else if (mode === 'left') compactLeft(items, excludeId, index)
+	else if (mode === 'up-left') {
+		// Alternate until stable — floating up can open room to the left and vice versa.
+		// Every pass that changes anything lowers some row or column, so this terminates.
+		while (true) {
+			const up = compactUp(items, excludeId, index), left = compactLeft(items, excludeId, index)
+			if (!up && !left) break
 		}
 	}
 }
 
-function calculatePushLayout(items: ItemRect[], movedId: string, targetCell: GridCell, compact = true): ItemRect[] {
+function calculatePushLayout(items: ItemRect[], movedId: string, targetCell: GridCell, compaction: CompactionMode = 'up'): ItemRect[] {
 	const result = items.map(i => ({ ...i }))
 	const moved = result.find(i => i.id === movedId)
-	if (!moved) return result
-	moved.column = targetCell.column
-	moved.row = targetCell.row
-	pushDown(result, moved, movedId)
-	if (compact) compactUp(result, movedId)
+	if (!moved || moved.static) return result
+	const index = createOccupancyIndex(result)
+	index.move(moved, targetCell.column, targetCell.row)
+	skipStatics(index, moved)
+	pushDown(result, moved, movedId, index)
+	applyCompaction(result, movedId, compaction, index)
+	return result
+}
+
+// Smart push — slide colliders left, right or up into free space when that moves them no further
+// than pushing them down would
+
+// Nearest free spot an item can slide to: each direction stops at the first blocked step, so items
+// never jump over others (only over `pusher`, the item displacing them). Slides longer than
+// `maxDistance` are not considered.
+function findFreeShift(index: OccupancyIndex, item: ItemRect, columns: number, maxDistance = Infinity, pusher?: ItemRect): { column: number; row: number; distance: number } | null {
+	let best: { column: number; row: number; distance: number } | null = null
+	const slide = (dc: number, dr: number) => {
+		for (let d = 1; d <= maxDistance && (!best || d < best.distance); d++) {
+			const column = item.column + dc * d, row = item.row + dr * d
+			if (column < 1 || row < 1 || column + item.width - 1 > columns) return
+			// Only the strip the item sweeps into is new; anything in it blocks the slide
+			const strip = dc ? { ...item, column: dc < 0 ? column : column + item.width - 1, row, width: 1 } : { ...item, column, row, height: 1 }
+			if (index.colliders(strip).some(o => o !== pusher)) return
+			if (!index.colliders({ ...item, column, row }).length) { best = { column, row, distance: d }; return }
+		}
+	}
+	slide(-1, 0); slide(1, 0); slide(0, -1)
+	return best
+}
+
+function calculateSmartPushLayout(items: ItemRect[], movedId: string, targetCell: GridCell, columns: number, compaction: CompactionMode = 'up'): ItemRect[] {
+	const result = items.map(i => ({ ...i }))
+	const moved = result.find(i => i.id === movedId)
+	if (!moved || moved.static) return result
+	const index = createOccupancyIndex(result)
+	index.move(moved, targetCell.column, targetCell.row)
+	skipStatics(index, moved)
+	const colliders = index.colliders(moved)
+		.filter(it => !it.static)
+		.sort((a, b) => a.row - b.row || a.column - b.column)
+	for (const c of colliders) {
+		if (!itemsOverlap(moved, c)) continue
+		const shift = findFreeShift(index, c, columns, moved.row + moved.height - c.row, moved)
+		if (shift) { index.move(c, shift.column, shift.row); continue }
+		index.move(c, c.column, moved.row + moved.height)
+		skipStatics(index, c)
+		pushDown(result, c, movedId, index)
+	}
+	applyCompaction(result, movedId, compaction, index)
+	return result
+}
+
+// Swap algorithm — exchange places with a same-sized item, else fall back to push
+
+function calculateSwapLayout(items: ItemRect[], movedId: string, targetCell: GridCell, compaction: CompactionMode = 'up'): ItemRect[] {
+	const orig = items.find(i => i.id === movedId)
+	if (!orig || (orig.column === targetCell.column && orig.row === targetCell.row)) return calculatePushLayout(items, movedId, targetCell, compaction)
+	const target = { ...orig, column: targetCell.column, row: targetCell.row }
+	const colliders = items.filter(i => i.id !== movedId && itemsOverlap(target, i))
+	const other = colliders[0]
+	if (colliders.length !== 1 || !other || other.static || other.column !== target.column || other.row !== target.row || other.width !== orig.width || other.height !== orig.height) {
+		return calculatePushLayout(items, movedId, targetCell, compaction)
+	}
+	const result = items.map(i => ({ ...i }))
+	for (const i of result) {
+		if (i.id === movedId) { i.column = target.column; i.row = target.row }
+		else if (i.id === other.id) { i.column = orig.column; i.row = orig.row }
+	}
+	applyCompaction(result, movedId, compaction)
 	return result
 }
 
+// Reflow algorithm — items keep a reading order and pack first-fit around it
+
+function byReadingOrder(a: GridCell, b: GridCell): number {
+	return a.row - b.row || a.column - b.column
+}
+
+function getReadingOrder(items: ItemRect[]): string[] {
+	return [...items].sort(byReadingOrder).map(i => i.id)
+}
+
+// Items wider than the grid are clamped to its column count
+function packFirstFit(items: ItemRect[], columns: number, fixed: ItemRect[] = []): ItemRect[] {
+	const occupied = new Set<string>()
+	for (const f of fixed) for (let dy = 0; dy < f.height; dy++) for (let dx = 0; dx < f.width; dx++) occupied.add(`${f.row + dy},${f.column + dx}`)
+	const fits = (col: number, row: number, w: number, h: number) => {
+		for (let dy = 0; dy < h; dy++) for (let dx = 0; dx < w; dx++) if (occupied.has(`${row + dy},${col + dx}`)) return false
+		return true
+	}
+	return items.map(item => {
+		const w = Math.min(item.width, columns)
+		for (let row = 1; ; row++) {
+			for (let col = 1; col <= columns - w + 1; col++) {
+				if (!fits(col, row, w, item.height)) continue
+				for (let dy = 0; dy < item.height; dy++) for (let dx = 0; dx < w; dx++) occupied.add(`${row + dy},${col + dx}`)
+				return { ...item, column: col, row, width: w }
+			}
+		}
+	})
+}
+
+function calculateReflowLayout(items: ItemRect[], movedId: string, targetCell: GridCell, columns: number): ItemRect[] {
+	const moved = items.find(i => i.id === movedId)
+	if (!moved || moved.static) return items.map(i => ({ ...i }))
+	const statics = items.filter(i => i.static)
+	const others = items.filter(i => i.id !== movedId && !i.static).sort(byReadingOrder)
+	// Moving forward lands after items at the target cell, moving backward lands before them
+	const forward = byReadingOrder(targetCell, moved) > 0
+	const index = others.filter(i => forward ? byReadingOrder(i, targetCell) <= 0 : byReadingOrder(i, targetCell) < 0).length
+	others.splice(index, 0, { ...moved, column: targetCell.column, row: targetCell.row })
+	return [...statics.map(i => ({ ...i })), ...packFirstFit(others, Math.max(1, columns), statics)]
+}
+
+// Re-packs in the current reading order, e.g. to close the gap a removed item leaves
+function repackReflow(items: ItemRect[], columns: number): ItemRect[] {
+	const statics = items.filter(i => i.static)
+	const others = items.filter(i => !i.static).sort(byReadingOrder)
+	return [...statics.map(i => ({ ...i })), ...packFirstFit(others, Math.max(1, columns), statics)]
+}
+
+// No-overlap — nothing else moves; drops onto other items or outside the grid are rejected
+
+function placeItem(items: ItemRect[], movedId: string, targetCell: GridCell): ItemRect[] {
+	return items.map(i => i.id === movedId && !i.static ? { ...i, column: targetCell.column, row: targetCell.row } : { ...i })
+}
+
+function isPlacementValid(layout: ItemRect[], movedId: string, columns: number, maxRows = Infinity): boolean {
+	const moved = layout.find(i => i.id === movedId)
+	if (!moved) return true
+	if (moved.column < 1 || moved.row < 1 || moved.column + moved.width - 1 > columns || moved.row + moved.height - 1 > maxRows) return false
+	return !layout.some(o => o.id !== movedId && itemsOverlap(moved, o))
+}
+
+// Built-in algorithms
+
+function compactLayout(items: ItemRect[], req: LayoutRequest): ItemRect[] {
+	const result = items.map(i => ({ ...i }))
+	applyCompaction(result, req.movedId, req.compaction)
+	return result
+}
+
+const pushAlgorithm: LayoutAlgorithm = {
+	move: ({ items, movedId, cell }) => calculatePushLayout(items, movedId, cell, false),
+	compact: compactLayout,
+}
+
+const smartPushAlgorithm: LayoutAlgorithm = {
+	move: ({ items, movedId, cell, columns }) => calculateSmartPushLayout(items, movedId, cell, columns, false),
+	compact: compactLayout,
+}
+
+const swapAlgorithm: LayoutAlgorithm = {
+	move: ({ items, movedId, cell }) => calculateSwapLayout(items, movedId, cell, false),
+	compact: compactLayout,
+}
+
+const reflowAlgorithm: LayoutAlgorithm = {
+	move: ({ items, movedId, cell, columns }) => calculateReflowLayout(items, movedId, cell, columns),
+}
+
+const noOverlapAlgorithm: LayoutAlgorithm = {
+	move: ({ items, movedId, cell }) => placeItem(items, movedId, cell),
+	validate: (layout, { movedId, columns, maxRows }) => isPlacementValid(layout, movedId, columns, maxRows),
+}
+
+const ALGORITHMS: Record<string, LayoutAlgorithm> = { push: pushAlgorithm, 'smart-push': smartPushAlgorithm, swap: swapAlgorithm, reflow: reflowAlgorithm, 'no-overlap': noOverlapAlgorithm }
+
+// One layout pass — move (or resize, when a size is given) then compact. Shared with the layout worker.
+function runLayout(algorithm: LayoutAlgorithm, req: LayoutRequest, size?: { colspan: number; rowspan: number }): ItemRect[] {
+	let layout: ItemRect[]
+	if (size) {
+		const items = req.items.map(i => i.id === req.movedId ? { ...i, column: req.cell.column, row: req.cell.row, width: size.colspan, height: size.rowspan } : i)
+		layout = algorithm.resize ? algorithm.resize({ ...req, items, ...size }) : algorithm.move({ ...req, items })
+	} else layout = algorithm.move(req)
+	return req.compaction && algorithm.compact ? algorithm.compact(layout, req) : layout
+}
+
+// Group drag pass — `cell` is the group's top-left and `offsets` place each member inside it. Members
+// move one at a time and are pinned as static once placed, so only their own rects collide (not the
+// bounding box) and they keep their shape. A static under any member shifts the whole group down.
+function runGroupLayout(algorithm: LayoutAlgorithm, req: LayoutRequest, offsets: Map<string, GridCell>): ItemRect[] {
+	const members = req.items.filter(i => offsets.has(i.id)), statics = req.items.filter(i => i.static)
+	let row = req.cell.row
+	const target = (m: ItemRect) => ({ ...m, column: req.cell.column + offsets.get(m.id)!.column, row: row + offsets.get(m.id)!.row })
+	let hit: ItemRect | undefined
+	while ((hit = statics.find(s => members.some(m => itemsOverlap(target(m), s))))) {
+		const s = hit
+		row += Math.min(...members.map(target).filter(t => itemsOverlap(t, s)).map(t => s.row + s.height - t.row))
+	}
+	let layout = req.items.filter(i => !offsets.has(i.id))
+	for (const t of members.map(target).sort(byReadingOrder)) {
+		const m = members.find(i => i.id === t.id)!
+		layout = algorithm.move({ ...req, items: [...layout, { ...m }], movedId: m.id, cell: { column: t.column, row: t.row } })
+			.map(i => i.id === m.id ? { ...i, static: true } : i)
+	}
+	const cell = { column: req.cell.column, row }
+	if (req.compaction && algorithm.compact) layout = algorithm.compact(layout, { ...req, items: layout, cell })
+	return layout.map(i => offsets.has(i.id) ? { ...members.find(m => m.id === i.id)!, column: i.column, row: i.row } : i)
+}
+
+// First free top-left cell for a w×h rect, scanning rows top-to-bottom
+function findFreeCell(items: ItemRect[], columns: number, width: number, height: number): GridCell {
+	const index = createOccupancyIndex(items)
+	const w = Math.min(width, columns)
+	for (let row = 1; ; row++) {
+		for (let column = 1; column <= columns - w + 1; column++) {
+			if (!index.colliders({ id: '', column, row, width: w, height }).length) return { column, row }
+		}
+	}
+}
+
 // ── init() ─────────────────────────────────────────────────────────────────────
 
+let nextItemId = 0
+
+// Vetoable by listeners. Internal subsystems may already have reacted, so a vetoed start/move is
+// unwound by its emitter (drag-cancel / resize-cancel, or a move back to the last accepted cell).
+const CANCELABLE_EVENTS = new Set(['drag-start', 'drag-move', 'resize-start', 'before-commit', 'marquee-start', 'external-enter', 'item-remove'])
+
+// Palette drags are shared by every grid on the page: one ghost per pointer, moved by each grid's tracker
+const sourceGhosts = new Map<number, { el: HTMLElement; users: number }>()
+
+// Linked grids by InitOptions.link name. A drag leaving its grid is offered to the others as an
+// external drag (mode 'transfer'); `receive` places the element and calls back with its cell, or null if
+// refused (later, when the target's beforeCommit is async).
+type LinkTarget = {
+	element: HTMLElement
+	hover(item: HTMLElement, x: number, y: number): boolean
+	leave(item: HTMLElement): void
+	receive(item: HTMLElement, from: HTMLElement, done: (cell: GridCell | null) => void): void
+}
+const linkedGrids = new Map<string, Set<LinkTarget>>()
+
 export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 	const cleanups: (() => void)[] = []
 	const styleEl = options.styleElement ?? document.createElement('style')
 	if (!options.styleElement) { document.head.appendChild(styleEl); cleanups.push(() => styleEl.remove()) }
 
 	const existingCSS = styleEl.textContent?.trim() || ''
+	const layoutModel = options.responsive?.layoutModel ?? options.layoutModel
+	const algorithm = typeof options.algorithm === 'object' ? options.algorithm : ALGORITHMS[options.algorithm || 'push'] ?? pushAlgorithm
+	const compaction = options.compaction === true ? 'up' : options.compaction ?? 'up'
+	const maxRows = options.maxRows ?? layoutModel?.maxRows ?? Infinity
+	const ignore = options.ignore ?? DEFAULT_IGNORE
 	let selectedElement: HTMLElement | null = null
+	const selection = new Set<HTMLElement>()
 
 	const core: EggCore = {
 		element,
@@ -176,35 +584,52 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 		get selectedItem() { return selectedElement },
 		set selectedItem(item) { this.select(item) },
 
-		select(item) {
-			if (item === selectedElement) return
-			const prev = selectedElement
-			if (prev) prev.removeAttribute('data-egg-selected')
-			if (item) {
-				this.phase = this.phase === 'idle' ? 'selected' : this.phase
-				selectedElement = item
-				item.setAttribute('data-egg-selected', '')
-				this.emit('select', { item })
-			} else {
-				if (this.phase === 'selected') this.phase = 'idle'
-				selectedElement = null
-				if (prev) this.emit('deselect', { item: prev })
+		get selectedItems() { return Array.from(selection) },
+
+		select(item, { add = false, toggle = false } = {}) {
+			if (item && toggle && selection.has(item)) {
+				selection.delete(item)
+				item.removeAttribute('data-egg-selected')
+				if (selectedElement === item) selectedElement = Array.from(selection).pop() ?? null
+				if (!selectedElement && this.phase === 'selected') this.phase = 'idle'
+				this.emit('deselect', { item })
+				return
+			}
+			if (item && !add && !toggle && item === selectedElement && selection.size === 1) return
+			const isNew = !item || item !== selectedElement
+			if (!item || (!add && !toggle)) {
+				for (const el of selection) if (el !== item) el.removeAttribute('data-egg-selected')
+				const prev = selectedElement
+				selection.clear()
+				if (!item) {
+					if (this.phase === 'selected') this.phase = 'idle'
+					selectedElement = null
+					if (prev) this.emit('deselect', { item: prev })
+					return
+				}
 			}
+			this.phase = this.phase === 'idle' ? 'selected' : this.phase
+			selection.add(item)
+			selectedElement = item
+			item.setAttribute('data-egg-selected', '')
+			if (isNew) this.emit('select', { item })
 		},
 
 		deselect() { this.select(null) },
 
-		getCellFromPoint(x, y) {
+		// extraRows accepts points up to that many virtual rows below the last row
+		getCellFromPoint(x, y, extraRows = 0) {
 			const rect = element.getBoundingClientRect()
-			if (x < rect.left || x > rect.right || y < rect.top || y > rect.bottom) return null
 			const s = getComputedStyle(element)
-			const cols = parseGridTemplate(s.gridTemplateColumns)
 			const rows = parseGridTemplate(s.gridTemplateRows)
-			const cGap = parseFloat(s.columnGap) || 0
 			const rGap = parseFloat(s.rowGap) || 0
+			const step = (rows[rows.length - 1] ?? 0) + rGap
+			if (x < rect.left || x > rect.right || y < rect.top || y > rect.bottom + extraRows * step) return null
+			const cols = parseGridTemplate(s.gridTemplateColumns)
+			const cGap = parseFloat(s.columnGap) || 0
 			return {
 				column: getGridIndex(x - rect.left + element.scrollLeft, cols, cGap),
-				row: getGridIndex(y - rect.top + element.scrollTop, rows, rGap),
+				row: y > rect.bottom ? rows.length + Math.min(extraRows, Math.ceil((y - rect.bottom) / step)) : getGridIndex(y - rect.top + element.scrollTop, rows, rGap),
 			}
 		},
 
@@ -218,90 +643,527 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 		},
 
 		emit(event, detail) {
-			element.dispatchEvent(new CustomEvent(`egg-${event}`, { bubbles: true, detail }))
+			return element.dispatchEvent(new CustomEvent(`egg-${event}`, { bubbles: true, cancelable: CANCELABLE_EVENTS.has(event), detail }))
 		},
 
 		commitStyles() {
 			styleEl.textContent = [this.baseCSS, this.previewCSS].filter(Boolean).join('\n\n')
 		},
 
+		getLayout() { return Array.from(syncRects().values(), r => ({ ...r })) },
+
+		// Emitted as an instant drag/resize with source 'api', exactly like a keyboard nudge.
+		// With `algorithm: false` there is no harness, so the item is committed where it was asked.
+		moveItem(id, target) {
+			const item = findItem(id)
+			if (!item || isStatic(item) || this.phase === 'interacting') return false
+			const { colspan, rowspan } = getItemSize(item)
+			const cell = fitCell(target, colspan, rowspan)
+			if (!this.emit('drag-start', { item, cell: cellOf(item), colspan, rowspan, source: 'api' }) || !this.emit('drag-move', { item, cell, x: 0, y: 0, colspan, rowspan, source: 'api' })) {
+				this.emit('drag-cancel', { item, source: 'api' })
+				return false
+			}
+			rolledBack = false
+			this.emit('drag-end', { item, cell, colspan, rowspan, source: 'api' })
+			if (commitLayout) return !rolledBack
+			const layout = this.getLayout().map(r => r.id === id ? { ...r, ...cell } : r)
+			if (exceedsRows(layout)) { refuseLayout(layout, item); return false }
+			return approve(item, layout, 'drag', 'api', () => commit(layout, true)) && !rolledBack
+		},
+
+		resizeItem(id, size) {
+			const item = findItem(id)
+			if (!item || isStatic(item) || this.phase === 'interacting') return false
+			const cell = cellOf(item), sz = getItemSize(item)
+			const resizeOpts = typeof options.resize === 'object' ? options.resize : {}
+			const minSize = resizeOpts.minSize ?? { colspan: 1, rowspan: 1 }, maxSize = resizeOpts.maxSize ?? { colspan: 6, rowspan: 6 }
+			const columns = Math.max(1, this.getGridInfo().columns.length)
+			const colspan = Math.max(1, Math.min(Math.max(minSize.colspan, Math.min(maxSize.colspan, size.colspan)), columns - cell.column + 1))
+			const rowspan = Math.max(1, Math.min(Math.max(minSize.rowspan, Math.min(maxSize.rowspan, size.rowspan)), maxRows - cell.row + 1))
+			if (!this.emit('resize-start', { item, cell, colspan: sz.colspan, rowspan: sz.rowspan, handle: 'se', source: 'api' })) {
+				this.emit('resize-cancel', { item, source: 'api' })
+				return false
+			}
+			item.setAttribute('data-egg-colspan', String(colspan))
+			item.setAttribute('data-egg-rowspan', String(rowspan))
+			rolledBack = false
+			this.emit('resize-end', { item, cell, colspan, rowspan, source: 'api' })
+			if (commitLayout) return !rolledBack
+			const layout = this.getLayout()
+			const revert = () => { item.setAttribute('data-egg-colspan', String(sz.colspan)); item.setAttribute('data-egg-rowspan', String(sz.rowspan)) }
+			if (exceedsRows(layout)) refuseLayout(layout, item)
+			else if (approve(item, layout, 'resize', 'api', () => commit(layout, true), revert) && !rolledBack) return true
+			revert()
+			return false
+		},
+
+		setLayout(items, { animate = true } = {}) { return setItems(items, animate) },
+
+		addItem(item, options) { return this.phase !== 'interacting' && addElement(item, options) },
+
+		removeItem(id, { compact = !!compaction, animate = true } = {}) {
+			const item = findItem(id)
+			return !!item && this.phase !== 'interacting' && removeElement(item, compact, animate, 'api')
+		},
+
+		undo() { return this.phase !== 'interacting' && (history?.undo() ?? false) },
+		redo() { return this.phase !== 'interacting' && (history?.redo() ?? false) },
+
 		destroy() { cleanups.forEach(fn => fn()) },
 	}
 
+	// ── Layout State ───────────────────────────────────────────────────────────
+	// Authoritative item rects, updated on commit. Only reconciled with the DOM when items are
+	// added or removed (or the breakpoint changes), so interactions never read computed styles.
+	// With `algorithm: false` the app owns positions, so the DOM stays the source of truth.
+
+	const rects = new Map<string, ItemRect>()
+	let rectsStale = true
+	let committing = false
+	let history: { undo(): boolean; redo(): boolean } | null = null
+	// Set by the harness so setLayout() commits exactly like a drop
+	let commitLayout: ((layout: ItemRect[], animate: boolean) => void) | null = null
+	// Set whenever the harness rolls an interaction back, so moveItem/resizeItem can report it
+	let rolledBack = false
+	// While an async beforeCommit is pending nothing else may commit: it would be overwritten on resolve
+	let commitPending = false
+
+	function exceedsRows(layout: ItemRect[]): boolean {
+		return layout.some(i => i.row + i.height - 1 > maxRows)
+	}
+
+	// Top-left cell that keeps a colspan×rowspan rect inside the columns and above maxRows
+	function fitCell(cell: GridCell, colspan: number, rowspan: number): GridCell {
+		const columns = Math.max(1, core.getGridInfo().columns.length)
+		return {
+			column: Math.max(1, Math.min(columns - colspan + 1, Math.round(cell.column))),
+			row: Math.max(1, Math.min(maxRows - rowspan + 1, Math.round(cell.row))),
+		}
+	}
+
+	// Whole-layout refusals carry the refused layout; `item` is null when no single item caused it
+	function refuseLayout(layout: ItemRect[], item: HTMLElement | null = null, source = 'api') {
+		const cell = item && cellOf(item), size = item && getItemSize(item)
+		core.emit('layout-refused', { item, cell, colspan: size?.colspan ?? 0, rowspan: size?.rowspan ?? 0, maxRows, source, layout })
+	}
+
+	// Sizes reach the model before positions so its row check sees the new heights; a refused save
+	// rolls the sizes back. Returns whether the model took the layout.
+	function saveToModel(model: ResponsiveLayoutModel, layout: ItemRect[], cols: number, originals: Map<string, ItemRect>): boolean {
+		const positions = new Map<string, { column: number; row: number }>()
+		for (const r of layout) positions.set(r.id, { column: r.column, row: r.row })
+		const resized = layout.filter(r => { const o = originals.get(r.id); return o && (o.width !== r.width || o.height !== r.height) })
+		committing = true
+		for (const r of resized) model.updateItemSize(r.id, { width: r.width, height: r.height })
+		const saved = model.saveLayout(cols, positions) !== false
+		if (!saved) for (const r of resized) { const o = originals.get(r.id)!; model.updateItemSize(r.id, { width: o.width, height: o.height }) }
+		committing = false
+		return saved
+	}
+
+	// Commits a whole layout: through the harness when there is one, else straight to the layout
+	// model or baseCSS (with `algorithm: false` the app owns positions). Sets `rolledBack` when the
+	// model refuses it.
+	function commit(layout: ItemRect[], animate: boolean) {
+		if (commitLayout) return commitLayout(layout, animate)
+		const cols = core.getGridInfo().columns.length
+		if (layoutModel && !saveToModel(layoutModel, layout, cols, new Map(Array.from(syncRects(), ([id, r]) => [id, { ...r }])))) {
+			rolledBack = true
+			refuseLayout(layout)
+			return
+		}
+		for (const r of layout) {
+			const el = findItem(r.id)
+			el?.setAttribute('data-egg-colspan', String(r.width))
+			el?.setAttribute('data-egg-rowspan', String(r.height))
+			el?.style.removeProperty('grid-column')
+			el?.style.removeProperty('grid-row')
+		}
+		// The responsive plugin regenerates baseCSS from the model when it saves
+		if (!options.responsive) core.baseCSS = layoutToCSS(layout)
+		core.commitStyles()
+		core.emit('layout-change', { items: layout, order: getReadingOrder(layout), columnCount: cols })
+	}
+
+	function beforeCommit(item: HTMLElement | null, layout: ItemRect[], type: string, source = 'api'): boolean {
+		return core.emit('before-commit', { item, layout, columnCount: Math.max(1, core.getGridInfo().columns.length), type, source })
+	}
+
+	// Commits that don't come from a drop or resize: egg-before-commit, then the async `beforeCommit`
+	// option. Nothing changes until it resolves (the item shows data-egg-pending); a rejection fires
+	// egg-commit-rejected and calls `rejected`. Returns false when vetoed or another commit is pending.
+	function approve(item: HTMLElement | null, layout: ItemRect[], type: string, source: string, apply: () => void, rejected?: () => void): boolean {
+		if (commitPending || !beforeCommit(item, layout, type, source)) return false
+		if (!options.beforeCommit) { apply(); return true }
+		let confirmation: Promise<unknown>
+		try { confirmation = Promise.resolve(options.beforeCommit(layout)) } catch (err) { confirmation = Promise.reject(err) }
+		commitPending = true
+		item?.setAttribute('data-egg-pending', '')
+		const settle = () => { commitPending = false; item?.removeAttribute('data-egg-pending') }
+		confirmation.then(
+			() => { settle(); apply() },
+			reason => {
+				settle()
+				core.emit('commit-rejected', { item, layout, originals: core.getLayout(), reason })
+				rejected?.()
+			},
+		)
+		return true
+	}
+
+	// setLayout; undo/redo pass `rejected` to hear about a later async rejection. Refused mid-interaction:
+	// committing would pull the layout out from under the live drag.
+	function setItems(items: ItemRect[], animate: boolean, rejected?: () => void): boolean {
+		if (core.phase === 'interacting') return false
+		const next = new Map(Array.from(syncRects(), ([id, r]) => [id, { ...r }]))
+		for (const r of items) if (next.has(r.id)) next.set(r.id, { ...r })
+		const layout = Array.from(next.values())
+		if (exceedsRows(layout)) { refuseLayout(layout); return false }
+		return approve(null, layout, 'layout', 'api', () => commit(layout, animate), rejected)
+	}
+
+	// addItem; `done` gets the placed cell once committed, or null if refused (later, with an async beforeCommit)
+	function addElement(item: HTMLElement, { cell, colspan, rowspan, animate = true }: { cell?: GridCell; colspan?: number; rowspan?: number; animate?: boolean } = {}, done?: (cell: GridCell | null) => void): boolean {
+		if (!getItemId(item)) item.id = `egg-item-${++nextItemId}`
+		if (!item.dataset.eggItem) item.setAttribute('data-egg-item', getItemId(item))
+		const id = getItemId(item), size = getItemSize(item)
+		const columns = Math.max(1, core.getGridInfo().columns.length)
+		const rect: ItemRect = { id, column: 1, row: 1, width: colspan ?? size.colspan, height: rowspan ?? size.rowspan }
+		if (isStatic(item)) rect.static = true
+		const items = core.getLayout().filter(r => r.id !== id)
+		let layout: ItemRect[]
+		if (cell) {
+			// Off-grid cells are pulled back onto it, whatever the algorithm would accept
+			cell = fitCell(cell, rect.width, rect.height)
+			Object.assign(rect, cell)
+			const req = { items: [...items, rect], movedId: id, cell, columns, maxRows, compaction }
+			layout = runLayout(algorithm, req)
+			if (algorithm.validate && !algorithm.validate(layout, { ...req, items: layout })) {
+				core.emit('drop-invalid', { item, cell, colspan: rect.width, rowspan: rect.height, source: 'api' })
+				done?.(null)
+				return false
+			}
+		} else {
+			Object.assign(rect, findFreeCell(items, columns, rect.width, rect.height))
+			layout = [...items, rect]
+		}
+		const placed = layout.find(r => r.id === id) ?? rect
+		const at = { column: placed.column, row: placed.row }
+		if (exceedsRows(layout)) {
+			core.emit('layout-refused', { item, cell: at, colspan: placed.width, rowspan: placed.height, maxRows, source: 'api', layout })
+			done?.(null)
+			return false
+		}
+		const approved = approve(item, layout, 'add', 'api', () => {
+			item.setAttribute('data-egg-colspan', String(placed.width))
+			item.setAttribute('data-egg-rowspan', String(placed.height))
+			// Inline position until the committed CSS lands, so the item never flashes in auto-placement
+			item.style.gridColumn = `${placed.column} / span ${placed.width}`
+			item.style.gridRow = `${placed.row} / span ${placed.height}`
+			if (item.parentElement !== element) element.appendChild(item)
+			committing = true
+			layoutModel?.addItem?.({ id, width: placed.width, height: placed.height })
+			committing = false
+			commit(layout, animate)
+			core.emit('item-add', { item, cell: at, colspan: placed.width, rowspan: placed.height })
+			done?.(at)
+		}, () => done?.(null))
+		if (!approved) done?.(null)
+		return approved
+	}
+
+	// Closes the gap an item leaves at `cell`. Reflow has no compaction pass — its reading order is
+	// the layout — so it re-packs instead.
+	function closeGap(layout: ItemRect[], cell: GridCell): ItemRect[] {
+		const columns = Math.max(1, core.getGridInfo().columns.length)
+		if (algorithm === reflowAlgorithm) return repackReflow(layout, columns)
+		return compaction && algorithm.compact ? algorithm.compact(layout, { items: layout, movedId: '', cell, columns, maxRows, compaction }) : layout
+	}
+
+	// Shared by removeItem and trash drops. egg-item-remove is cancelable and fires before the item leaves.
+	// `done` hears whether the item went, which with an async beforeCommit is only known later.
+	function removeElement(item: HTMLElement, compact: boolean, animate: boolean, source: string, done?: (removed: boolean) => void): boolean {
+		const id = getItemId(item), cell = cellOf(item), { colspan, rowspan } = getItemSize(item)
+		let layout = core.getLayout().filter(r => r.id !== id)
+		if (compact) layout = closeGap(layout, cell)
+		const approved = core.emit('item-remove', { item, id, cell, colspan, rowspan, source }) && approve(item, layout, 'remove', source, () => {
+			if (selection.has(item)) core.select(item, { toggle: true })
+			item.remove()
+			rects.delete(id)
+			committing = true
+			layoutModel?.removeItem?.(id)
+			committing = false
+			commit(layout, animate)
+			done?.(true)
+		}, () => done?.(false))
+		if (!approved) done?.(false)
+		return approved
+	}
+
+	// Hands an item to a linked grid: once this grid approves, the target places it (its beforeCommit and
+	// maxRows apply), then this grid closes the gap. Stays pending until the target settles.
+	function transferOut(item: HTMLElement, target: LinkTarget, done: (cell: GridCell | null) => void) {
+		const id = getItemId(item), cell = cellOf(item), { colspan, rowspan } = getItemSize(item)
+		const layout = closeGap(core.getLayout().filter(r => r.id !== id), cell)
+		const approved = approve(item, layout, 'transfer', 'pointer', () => {
+			commitPending = true
+			target.receive(item, element, placed => {
+				commitPending = false
+				if (!placed) return done(null)
+				if (selection.has(item)) core.select(item, { toggle: true })
+				rects.delete(id)
+				committing = true
+				layoutModel?.removeItem?.(id)
+				committing = false
+				// Item rules aren't scoped to the grid, so a stale one here could outrank the target's
+				core.baseCSS = removeItemCSS(core.baseCSS, id)
+				commit(layout, true)
+				core.emit('transfer-out', { item, id, to: target.element, cell, colspan, rowspan })
+				done(placed)
+			})
+		}, () => done(null))
+		if (!approved) done(null)
+	}
+
+	// Bounding box of the multi-selection for group drags; null unless two or more movable items are selected
+	function selectedGroup(): { items: HTMLElement[]; cell: GridCell; colspan: number; rowspan: number } | null {
+		const items = Array.from(selection).filter(el => el.isConnected && !isStatic(el))
+		if (items.length < 2) return null
+		let c1 = Infinity, r1 = Infinity, c2 = 0, r2 = 0
+		for (const el of items) {
+			const c = cellOf(el), sz = getItemSize(el)
+			c1 = Math.min(c1, c.column); r1 = Math.min(r1, c.row)
+			c2 = Math.max(c2, c.column + sz.colspan); r2 = Math.max(r2, c.row + sz.rowspan)
+		}
+		return { items, cell: { column: c1, row: r1 }, colspan: c2 - c1, rowspan: r2 - r1 }
+	}
+
+	function findItem(id: string): HTMLElement | null {
+		for (const el of element.querySelectorAll<HTMLElement>('[data-egg-item]')) if (getItemId(el) === id) return el
+		return null
+	}
+
+	function syncRects(): Map<string, ItemRect> {
+		if (rectsStale || options.algorithm === false) {
+			rects.clear()
+			for (const r of readItemsFromDOM(element)) rects.set(r.id, r)
+			rectsStale = false
+			return rects
+		}
+		const seen = new Set<string>()
+		for (const el of element.querySelectorAll<HTMLElement>('[data-egg-item]')) {
+			const id = getItemId(el)
+			seen.add(id)
+			const known = rects.get(id)
+			if (!known) { rects.set(id, readItemRect(el)); continue }
+			const { colspan, rowspan } = getItemSize(el)
+			known.width = colspan; known.height = rowspan
+			if (isStatic(el)) known.static = true; else delete known.static
+		}
+		for (const id of rects.keys()) if (!seen.has(id)) rects.delete(id)
+		return rects
+	}
+
+	function commitRects(layout: ItemRect[]) {
+		for (const r of layout) rects.set(r.id, { ...r })
+	}
+
+	function cellOf(item: HTMLElement): GridCell {
+		if (options.algorithm === false) return getItemCell(item)
+		const r = syncRects().get(getItemId(item))
+		return r ? { column: r.column, row: r.row } : getItemCell(item)
+	}
+
 	// ── Pointer ────────────────────────────────────────────────────────────────
 
 	if (options.pointer !== false) {
-		const DRAG_THRESHOLD = 5
-		const PREDICTION_THRESHOLD = 30
-		const PREDICTION_LEAD = 0.5
-		const HYSTERESIS = 0.4
-		const TARGET_DEBOUNCE = 40
+		const ptrOpts = typeof options.pointer === 'object' ? options.pointer : {}
+		const dragThreshold = ptrOpts.threshold ?? 5
+		const prediction = ptrOpts.prediction ?? 'displacement'
+		const predictionThreshold = ptrOpts.predictionThreshold ?? 30
+		const predictionLead = ptrOpts.predictionLead ?? 0.5
+		const velocityLead = ptrOpts.velocityLead ?? 120
+		const hysteresis = ptrOpts.hysteresis ?? 0.4
+		const targetDebounce = ptrOpts.debounce ?? 40
+		const longPressDelay = ptrOpts.longPressDelay ?? 400
+		const longPressTolerance = ptrOpts.longPressTolerance ?? 10
+		const VELOCITY_WINDOW = 100
+
+		// `press` is set for touch: the drag arms after the long press, until then the page scrolls natively
+		let pending: { item: HTMLElement; pointerId: number; startX: number; startY: number; rect: DOMRect; startCell: GridCell; colspan: number; rowspan: number; press: { timer: ReturnType<typeof setTimeout>; armed: boolean } | null; inGroup: boolean } | null = null
+		let drag: { item: HTMLElement; pointerId: number; offsetX: number; offsetY: number; initialRect: DOMRect; startCell: GridCell; lastCell: GridCell; lastChangeTime: number; rejectedCell: GridCell | null; colspan: number; rowspan: number; dragStartX: number; dragStartY: number; samples: { x: number; y: number; t: number }[]
+			// Group drags: cells/spans are the group's bounding box, `offset` is the grabbed item's cell within it
+			items: HTMLElement[] | null; members: { el: HTMLElement; rect: DOMRect }[]; offset: GridCell
+			// Linked grid the item is currently offered to, trash zone it hovers (the grid itself when
+			// `outside`), and whether this grid's preview was lifted for either
+			target: LinkTarget | null; trash: HTMLElement | null; lifted: boolean } | null = null
+
+		const groupDetail = (d: NonNullable<typeof drag>) => d.items ? { items: d.items } : {}
+
+		function clampCell(raw: GridCell, d: NonNullable<typeof drag>, gi: ReturnType<EggCore['getGridInfo']>): GridCell {
+			const maxCol = Math.max(1, gi.columns.length - d.colspan + 1)
+			const maxRow = Math.max(1, Math.min(gi.rows.length + 1, maxRows) - d.rowspan + 1)
+			return { column: Math.max(1, Math.min(maxCol, raw.column - d.offset.column)), row: Math.max(1, Math.min(maxRow, raw.row - d.offset.row)) }
+		}
+
+		// Off this grid, single-item drags are offered to linked grids under the item's centre.
+		// Entering one lifts the item out of this grid's preview (egg-drag-leave).
+		function hoverLinked(d: NonNullable<typeof drag>, x: number, y: number) {
+			const targets = options.link && !d.items ? Array.from(linkedGrids.get(options.link) ?? []).filter(t => t.element !== element) : []
+			const cx = x - d.offsetX + d.initialRect.width / 2, cy = y - d.offsetY + d.initialRect.height / 2
+			let next: LinkTarget | null = null
+			for (const t of targets) {
+				if (next) t.leave(d.item)
+				else if (t.hover(d.item, cx, cy)) next = t
+			}
+			if (next && !d.lifted) { d.lifted = true; core.emit('drag-leave', { item: d.item, target: next.element, source: 'pointer' }) }
+			d.target = next
+		}
+
+		const trashOpts = options.trash
+		function trashZoneAt(x: number, y: number): HTMLElement | null {
+			const z = trashOpts?.zones
+			const zones = !z ? [] : typeof z === 'string' ? Array.from(document.querySelectorAll<HTMLElement>(z)) : Array.isArray(z) ? z : [z]
+			return zones.find(zone => {
+				const r = zone.getBoundingClientRect()
+				return x >= r.left && x <= r.right && y >= r.top && y <= r.bottom
+			}) ?? null
+		}
 
-		let pending: { item: HTMLElement; pointerId: number; startX: number; startY: number; rect: DOMRect; startCell: GridCell; colspan: number; rowspan: number } | null = null
-		let drag: { item: HTMLElement; pointerId: number; offsetX: number; offsetY: number; initialRect: DOMRect; startCell: GridCell; lastCell: GridCell; lastChangeTime: number; colspan: number; rowspan: number; dragStartX: number; dragStartY: number } | null = null
+		function setTrash(d: NonNullable<typeof drag>, zone: HTMLElement | null) {
+			if (d.trash === zone) return
+			if (d.trash && d.trash !== element) d.trash.removeAttribute('data-egg-trash-active')
+			if (zone && zone !== element) zone.setAttribute('data-egg-trash-active', '')
+			d.item.toggleAttribute('data-egg-removing', !!zone)
+			d.trash = zone
+			if (zone && !d.lifted) { d.lifted = true; core.emit('drag-leave', { item: d.item, target: zone === element ? null : zone, source: 'pointer' }) }
+		}
 
 		function startDrag(p: NonNullable<typeof pending>, e: PointerEvent) {
-			const { item, pointerId, rect, startCell, colspan, rowspan } = p
+			const { item, pointerId, rect } = p
+			if (p.press) { clearTimeout(p.press.timer); item.removeAttribute('data-egg-press-armed') }
+			const group = p.inGroup ? selectedGroup() : null
+			const startCell = group?.cell ?? p.startCell, colspan = group?.colspan ?? p.colspan, rowspan = group?.rowspan ?? p.rowspan
 			drag = {
 				item, pointerId, offsetX: e.clientX - rect.left, offsetY: e.clientY - rect.top,
-				initialRect: rect, startCell, lastCell: startCell, lastChangeTime: 0, colspan, rowspan,
-				dragStartX: e.clientX, dragStartY: e.clientY,
+				initialRect: rect, startCell, lastCell: startCell, lastChangeTime: 0, rejectedCell: null, colspan, rowspan,
+				dragStartX: e.clientX, dragStartY: e.clientY, samples: [{ x: e.clientX, y: e.clientY, t: performance.now() }],
+				items: group?.items ?? null,
+				members: group ? group.items.filter(el => el !== item).map(el => ({ el, rect: el.getBoundingClientRect() })) : [],
+				offset: group ? { column: p.startCell.column - group.cell.column, row: p.startCell.row - group.cell.row } : { column: 0, row: 0 },
+				target: null, trash: null, lifted: false,
 			}
 			item.setAttribute('data-egg-dragging', '')
 			document.body.classList.add('is-dragging')
 			const itemId = getItemId(item)
 			core.phase = 'interacting'
 			core.interaction = { type: 'drag', mode: 'pointer', itemId, element: item, columnCount: core.getGridInfo().columns.length }
-			core.emit('drag-start', { item, cell: startCell, colspan, rowspan, source: 'pointer' })
+			if (!core.emit('drag-start', { item, ...groupDetail(drag), cell: startCell, colspan, rowspan, source: 'pointer' })) {
+				core.emit('drag-cancel', { item, source: 'pointer' })
+				cleanupDrag()
+				core.phase = 'selected'
+				core.interaction = null
+				return
+			}
 			item.style.position = 'fixed'
 			item.style.left = `${rect.left}px`
 			item.style.top = `${rect.top}px`
 			item.style.width = `${rect.width}px`
 			item.style.height = `${rect.height}px`
 			item.style.zIndex = '100'
+			for (const m of drag.members) {
+				m.el.setAttribute('data-egg-dragging', '')
+				Object.assign(m.el.style, { position: 'fixed', left: `${m.rect.left}px`, top: `${m.rect.top}px`, width: `${m.rect.width}px`, height: `${m.rect.height}px`, zIndex: '99' })
+			}
 			pending = null
 		}
 
+		// Item centre under the pointer, led toward where it's heading: 'displacement' by a fixed fraction
+		// of a cell once the drag has travelled far enough, 'velocity' by recent speed × velocityLead
+		function predictCenter(d: NonNullable<typeof drag>, x: number, y: number, gi: ReturnType<EggCore['getGridInfo']>) {
+			let cx = x - d.offsetX + d.initialRect.width / 2, cy = y - d.offsetY + d.initialRect.height / 2
+			const stepX = gi.cellWidth + gi.gap, stepY = gi.cellHeight + gi.gap
+			if (prediction === 'velocity') {
+				const now = performance.now()
+				d.samples.push({ x, y, t: now })
+				while (d.samples.length > 2 && now - d.samples[0]!.t > VELOCITY_WINDOW) d.samples.shift()
+				const first = d.samples[0]!, dt = now - first.t
+				if (dt > 0) {
+					cx += Math.max(-stepX, Math.min(stepX, (x - first.x) / dt * velocityLead))
+					cy += Math.max(-stepY, Math.min(stepY, (y - first.y) / dt * velocityLead))
+				}
+			} else if (prediction === 'displacement') {
+				const cdx = x - d.dragStartX, cdy = y - d.dragStartY
+				if (Math.abs(cdx) > predictionThreshold) cx += Math.sign(cdx) * predictionLead * stepX
+				if (Math.abs(cdy) > predictionThreshold) cy += Math.sign(cdy) * predictionLead * stepY
+			}
+			return { cx, cy }
+		}
+
 		const onPointerMove = (e: PointerEvent) => {
 			if (pending && !drag) {
 				const dx = e.clientX - pending.startX, dy = e.clientY - pending.startY
-				if (Math.sqrt(dx * dx + dy * dy) >= DRAG_THRESHOLD) startDrag(pending, e)
+				const dist = Math.sqrt(dx * dx + dy * dy)
+				if (pending.press && !pending.press.armed) { if (dist > longPressTolerance) cleanupDrag(); return }
+				if (pending.press || dist >= dragThreshold) startDrag(pending, e)
 				else return
 			}
 			if (!drag) return
-			const { item, offsetX, offsetY, initialRect, colspan, rowspan } = drag
+			const { item, offsetX, offsetY, colspan, rowspan } = drag
 			const newLeft = e.clientX - offsetX, newTop = e.clientY - offsetY
 			item.style.left = `${newLeft}px`
 			item.style.top = `${newTop}px`
+			const ddx = e.clientX - drag.dragStartX, ddy = e.clientY - drag.dragStartY
+			for (const m of drag.members) { m.el.style.left = `${m.rect.left + ddx}px`; m.el.style.top = `${m.rect.top + ddy}px` }
 
-			let cx = newLeft + initialRect.width / 2, cy = newTop + initialRect.height / 2
 			const gi = core.getGridInfo()
-			const cdx = e.clientX - drag.dragStartX, cdy = e.clientY - drag.dragStartY
-			if (Math.abs(cdx) > PREDICTION_THRESHOLD) cx += Math.sign(cdx) * PREDICTION_LEAD * (gi.cellWidth + gi.gap)
-			if (Math.abs(cdy) > PREDICTION_THRESHOLD) cy += Math.sign(cdy) * PREDICTION_LEAD * (gi.cellHeight + gi.gap)
+			const { cx, cy } = predictCenter(drag, e.clientX, e.clientY, gi)
+
+			// Trash zones win over any grid underneath; `outside` catches drops nothing else takes.
+			// Leaving the grid follows the pointer itself, so a fast flick near the edge can't trash the
+			// item; the predicted centre only picks the cell.
+			const zone = drag.items ? null : trashZoneAt(e.clientX, e.clientY)
+			const pointerCell = zone ? null : core.getCellFromPoint(e.clientX, e.clientY, 1)
+			const rawCell = pointerCell && (core.getCellFromPoint(cx, cy, 1) ?? pointerCell)
+			if (!rawCell) {
+				if (zone && drag.target) { drag.target.leave(item); drag.target = null }
+				else if (!zone) hoverLinked(drag, e.clientX, e.clientY)
+				setTrash(drag, zone ?? (!drag.target && !drag.items && trashOpts?.outside ? element : null))
+				return
+			}
+			const cell = clampCell(rawCell, drag, gi)
 
-			const rawCell = core.getCellFromPoint(cx, cy)
-			if (!rawCell) return
-			const maxCol = Math.max(1, gi.columns.length - colspan + 1)
-			const maxRow = Math.max(1, gi.rows.length - rowspan + 1)
-			const cell = { column: Math.max(1, Math.min(maxCol, rawCell.column)), row: Math.max(1, Math.min(maxRow, rawCell.row)) }
+			// Back from a linked grid or trash zone: restore this grid's preview right away
+			const returning = drag.lifted
+			if (drag.target) { drag.target.leave(item); drag.target = null }
+			setTrash(drag, null)
+			drag.lifted = false
 
 			const now = performance.now()
-			if (now - drag.lastChangeTime < TARGET_DEBOUNCE) return
-			if (cell.column === drag.lastCell.column && cell.row === drag.lastCell.row) return
-
-			// Hysteresis
-			const cellW = gi.cellWidth + gi.gap, cellH = gi.cellHeight + gi.gap
-			const ccx = gi.rect.left + (drag.lastCell.column - 1) * cellW + gi.cellWidth / 2
-			const ccy = gi.rect.top + (drag.lastCell.row - 1) * cellH + gi.cellHeight / 2
-			const offX = (cx - ccx) / cellW, offY = (cy - ccy) / cellH
-			const alignedX = (cell.column > drag.lastCell.column) === (offX > 0)
-			const alignedY = (cell.row > drag.lastCell.row) === (offY > 0)
-			if (Math.abs(offX) < (alignedX ? 0.5 : 0.5 + HYSTERESIS) && Math.abs(offY) < (alignedY ? 0.5 : 0.5 + HYSTERESIS)) return
+			if (!returning) {
+				if (now - drag.lastChangeTime < targetDebounce) return
+				if (cell.column === drag.lastCell.column && cell.row === drag.lastCell.row) return
+				if (drag.rejectedCell && cell.column === drag.rejectedCell.column && cell.row === drag.rejectedCell.row) return
+
+				// Hysteresis
+				const cellW = gi.cellWidth + gi.gap, cellH = gi.cellHeight + gi.gap
+				const ccx = gi.rect.left + (drag.lastCell.column + drag.offset.column - 1) * cellW + gi.cellWidth / 2
+				const ccy = gi.rect.top + (drag.lastCell.row + drag.offset.row - 1) * cellH + gi.cellHeight / 2
+				const offX = (cx - ccx) / cellW, offY = (cy - ccy) / cellH
+				const alignedX = (cell.column > drag.lastCell.column) === (offX > 0)
+				const alignedY = (cell.row > drag.lastCell.row) === (offY > 0)
+				if (Math.abs(offX) < (alignedX ? 0.5 : 0.5 + hysteresis) && Math.abs(offY) < (alignedY ? 0.5 : 0.5 + hysteresis)) return
+			}
 
-			drag.lastCell = cell
 			drag.lastChangeTime = now
-			core.emit('drag-move', { item, cell, x: e.clientX, y: e.clientY, colspan, rowspan, source: 'pointer' })
+			if (!core.emit('drag-move', { item, ...groupDetail(drag), cell, x: e.clientX, y: e.clientY, colspan, rowspan, source: 'pointer' })) {
+				// Vetoed target: preview the last accepted cell again
+				drag.rejectedCell = cell
+				core.emit('drag-move', { item, ...groupDetail(drag), cell: drag.lastCell, x: e.clientX, y: e.clientY, colspan, rowspan, source: 'pointer' })
+				return
+			}
+			drag.lastCell = cell
+			drag.rejectedCell = null
 		}
 
 		const cleanupDrag = () => {
@@ -311,6 +1173,13 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 				document.body.classList.remove('is-dragging')
 				item.style.position = ''; item.style.left = ''; item.style.top = ''
 				item.style.width = ''; item.style.height = ''; item.style.zIndex = ''
+				for (const { el } of drag.members) {
+					el.removeAttribute('data-egg-dragging')
+					Object.assign(el.style, { position: '', left: '', top: '', width: '', height: '', zIndex: '' })
+				}
+				drag.target?.leave(item)
+				if (drag.trash && drag.trash !== element) drag.trash.removeAttribute('data-egg-trash-active')
+				item.removeAttribute('data-egg-removing')
 				item.releasePointerCapture(pointerId)
 				item.removeEventListener('pointermove', onPointerMove)
 				item.removeEventListener('pointerup', onPointerUp)
@@ -318,7 +1187,11 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 				drag = null
 			}
 			if (pending) {
-				pending.item.releasePointerCapture(pending.pointerId)
+				if (pending.press) {
+					clearTimeout(pending.press.timer)
+					pending.item.removeAttribute('data-egg-press-armed')
+				}
+				if (pending.item.hasPointerCapture(pending.pointerId)) pending.item.releasePointerCapture(pending.pointerId)
 				pending.item.removeEventListener('pointermove', onPointerMove)
 				pending.item.removeEventListener('pointerup', onPointerUp)
 				pending.item.removeEventListener('pointercancel', onPointerCancel)
@@ -327,50 +1200,89 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 		}
 
 		const onPointerUp = (e: PointerEvent) => {
-			if (pending && !drag) { cleanupDrag(); return }
+			if (pending && !drag) {
+				// A plain click on a multi-selected item narrows the selection to it
+				const { item, inGroup } = pending
+				cleanupDrag()
+				if (inGroup) core.select(item)
+				return
+			}
 			if (!drag) return
 
-			const { item, initialRect, colspan, rowspan, lastCell, offsetX, offsetY, dragStartX, dragStartY } = drag
+			const { item, colspan, rowspan, lastCell } = drag
 			const gi = core.getGridInfo()
-			const cdx = e.clientX - dragStartX, cdy = e.clientY - dragStartY
-			const nL = e.clientX - offsetX, nT = e.clientY - offsetY
-			let ecx = nL + initialRect.width / 2, ecy = nT + initialRect.height / 2
-			if (Math.abs(cdx) > PREDICTION_THRESHOLD) ecx += Math.sign(cdx) * PREDICTION_LEAD * (gi.cellWidth + gi.gap)
-			if (Math.abs(cdy) > PREDICTION_THRESHOLD) ecy += Math.sign(cdy) * PREDICTION_LEAD * (gi.cellHeight + gi.gap)
+			const { cx: ecx, cy: ecy } = predictCenter(drag, e.clientX, e.clientY, gi)
 
-			const rawCell = core.getCellFromPoint(ecx, ecy)
-			const firstRect = item.getBoundingClientRect()
+			if (drag.trash) {
+				// Dropped on a trash zone: remove (vetoable via egg-item-remove), compact, and fade a ghost out
+				const firstRect = item.getBoundingClientRect()
+				cleanupDrag()
+				core.phase = 'selected'
+				core.interaction = null
+				removeElement(item, true, true, 'pointer', removed => {
+					if (!removed) { core.emit('drag-cancel', { item, source: 'pointer' }); return }
+					core.emit('drag-end', { item, cell: lastCell, colspan, rowspan, source: 'pointer', removed: true })
+					const ghost = item.cloneNode(true) as HTMLElement
+					ghost.removeAttribute('id'); ghost.removeAttribute('data-egg-item'); ghost.removeAttribute('data-egg-selected'); ghost.removeAttribute('data-egg-pending')
+					ghost.setAttribute('data-egg-removing', '')
+					Object.assign(ghost.style, { position: 'fixed', left: `${firstRect.left}px`, top: `${firstRect.top}px`, width: `${firstRect.width}px`, height: `${firstRect.height}px`, margin: '0', pointerEvents: 'none', zIndex: '100', viewTransitionName: 'none' })
+					document.body.appendChild(ghost)
+					ghost.animate([{ opacity: 1, transform: 'none' }, { opacity: 0, transform: 'scale(0.8)' }], { duration: 200, easing: 'cubic-bezier(0.2, 0, 0, 1)' }).onfinish = () => ghost.remove()
+				})
+				return
+			}
 
-			let dropCell = lastCell
-			if (rawCell) {
-				const maxCol = Math.max(1, gi.columns.length - colspan + 1)
-				const maxRow = Math.max(1, gi.rows.length - rowspan + 1)
-				dropCell = { column: Math.max(1, Math.min(maxCol, rawCell.column)), row: Math.max(1, Math.min(maxRow, rawCell.row)) }
+			if (drag.target) {
+				// Dropped on a linked grid: the element moves there, or the drag is cancelled if either grid refuses
+				const target = drag.target, firstRect = item.getBoundingClientRect()
+				drag.target = null
+				cleanupDrag()
+				core.phase = 'selected'
+				core.interaction = null
+				transferOut(item, target, cell => {
+					if (!cell) { target.leave(item); core.emit('drag-cancel', { item, source: 'pointer' }); return }
+					core.emit('drag-end', { item, cell, ...getItemSize(item), source: 'pointer', target: target.element })
+					flipFrom([item], [firstRect])
+				})
+				return
 			}
 
-			core.emit('drag-end', { item, cell: dropCell, colspan, rowspan, source: 'pointer' })
+			const rawCell = core.getCellFromPoint(ecx, ecy, 1)
+			const moved = [item, ...drag.members.map(m => m.el)]
+			const firstRects = moved.map(el => el.getBoundingClientRect())
+
+			let dropCell = rawCell ? clampCell(rawCell, drag, gi) : lastCell
+			const group = groupDetail(drag)
+			// A drop cell the moves never reached still has to pass the drag-move veto
+			if ((dropCell.column !== lastCell.column || dropCell.row !== lastCell.row) && !core.emit('drag-move', { item, ...group, cell: dropCell, x: e.clientX, y: e.clientY, colspan, rowspan, source: 'pointer' })) dropCell = lastCell
+
+			core.emit('drag-end', { item, ...group, cell: dropCell, colspan, rowspan, source: 'pointer' })
 			cleanupDrag()
 			core.phase = 'selected'
 			core.interaction = null
 
-			// Inline FLIP animation
-			requestAnimationFrame(() => {
-				const lastRect = item.getBoundingClientRect()
+			flipFrom(moved, firstRects)
+		}
+
+		// Inline FLIP animation from the dragged position to the committed one
+		function flipFrom(moved: HTMLElement[], firstRects: DOMRect[]) {
+			requestAnimationFrame(() => moved.forEach((el, i) => {
+				const firstRect = firstRects[i]!, lastRect = el.getBoundingClientRect()
 				const dx = firstRect.left - lastRect.left, dy = firstRect.top - lastRect.top
 				if (Math.abs(dx) > 1 || Math.abs(dy) > 1) {
-					item.style.viewTransitionName = 'none'
-					item.setAttribute('data-egg-dropping', '')
-					const anim = item.animate(
+					el.style.viewTransitionName = 'none'
+					el.setAttribute('data-egg-dropping', '')
+					const anim = el.animate(
 						[{ transform: `translate(${dx}px, ${dy}px)` }, { transform: 'none' }],
 						{ duration: 200, easing: 'cubic-bezier(0.2, 0, 0, 1)' },
 					)
 					anim.onfinish = () => {
-						item.removeAttribute('data-egg-dropping')
-						const id = getItemId(item)
-						item.style.viewTransitionName = id || ''
+						el.removeAttribute('data-egg-dropping')
+						const id = getItemId(el)
+						el.style.viewTransitionName = id || ''
 					}
 				}
-			})
+			}))
 		}
 
 		const onPointerCancel = () => {
@@ -385,24 +1297,384 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 		const onPointerDown = (e: PointerEvent) => {
 			const item = (e.target as HTMLElement).closest('[data-egg-item]') as HTMLElement | null
 			if (!item) return
-			core.select(item)
-			e.preventDefault()
+			if (e.shiftKey || e.ctrlKey || e.metaKey) { core.select(item, { toggle: true }); return }
+			// Pressing a member of a multi-selection keeps the group so it can be dragged together
+			const inGroup = selection.has(item) && selection.size > 1
+			if (!inGroup) core.select(item)
+			if (isStatic(item) || !canStartDrag(e.target as Element, item, ignore)) return
 			const rect = item.getBoundingClientRect()
-			pending = { item, pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, rect, startCell: getItemCell(item), ...getItemSize(item) }
-			item.setPointerCapture(e.pointerId)
+			pending = { item, pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, rect, startCell: cellOf(item), ...getItemSize(item), press: null, inGroup }
+			if (e.pointerType === 'touch' && longPressDelay > 0) {
+				const p = pending
+				p.press = { armed: false, timer: setTimeout(() => {
+					if (pending !== p) return
+					p.press!.armed = true
+					item.setAttribute('data-egg-press-armed', '')
+					item.setPointerCapture(p.pointerId)
+				}, longPressDelay) }
+			} else {
+				e.preventDefault()
+				item.setPointerCapture(e.pointerId)
+			}
 			item.addEventListener('pointermove', onPointerMove)
 			item.addEventListener('pointerup', onPointerUp)
 			item.addEventListener('pointercancel', onPointerCancel)
 		}
 
+		// Once a press is armed (or dragging) the finger drags instead of scrolling the page or opening the context menu
+		const preventWhileArmed = (e: Event) => {
+			if (drag || pending?.press?.armed) e.preventDefault()
+		}
+
 		const onDocPointerDown = (e: PointerEvent) => {
 			if (element.contains(e.target as Node) || drag) return
 			core.deselect()
 		}
 
 		element.addEventListener('pointerdown', onPointerDown)
+		element.addEventListener('touchmove', preventWhileArmed, { passive: false })
+		element.addEventListener('contextmenu', preventWhileArmed)
 		document.addEventListener('pointerdown', onDocPointerDown)
-		cleanups.push(() => { element.removeEventListener('pointerdown', onPointerDown); document.removeEventListener('pointerdown', onDocPointerDown); cleanupDrag() })
+		cleanups.push(() => { element.removeEventListener('pointerdown', onPointerDown); element.removeEventListener('touchmove', preventWhileArmed); element.removeEventListener('contextmenu', preventWhileArmed); document.removeEventListener('pointerdown', onDocPointerDown); cleanupDrag() })
+	}
+
+	// ── Marquee ────────────────────────────────────────────────────────────────
+
+	if (options.marquee !== false) {
+		const mqOpts = typeof options.marquee === 'object' ? options.marquee : {}
+		const className = mqOpts.className ?? (typeof options.placeholder === 'object' && options.placeholder.className || 'egg-placeholder')
+		const threshold = mqOpts.threshold ?? 5
+
+		// `before` is restored on cancel; `base` stays selected underneath an additive (Shift/Ctrl/Cmd) marquee
+		let mq: {
+			pointerId: number; startX: number; startY: number; startCell: GridCell
+			before: HTMLElement[]; primary: HTMLElement | null; base: HTMLElement[]
+			box: HTMLElement | null; rect: { cell: GridCell; colspan: number; rowspan: number }; items: HTMLElement[]
+		} | null = null
+
+		// Points outside the grid snap to the nearest edge cell
+		function cellAt(x: number, y: number): GridCell | null {
+			const r = element.getBoundingClientRect()
+			return core.getCellFromPoint(Math.max(r.left, Math.min(r.right - 1, x)), Math.max(r.top, Math.min(r.bottom - 1, y)))
+		}
+
+		function itemsIn({ cell, colspan, rowspan }: NonNullable<typeof mq>['rect']): HTMLElement[] {
+			const out: HTMLElement[] = []
+			for (const el of element.querySelectorAll<HTMLElement>('[data-egg-item]')) {
+				const c = cellOf(el), sz = getItemSize(el)
+				if (c.column < cell.column + colspan && c.column + sz.colspan > cell.column && c.row < cell.row + rowspan && c.row + sz.rowspan > cell.row) out.push(el)
+			}
+			return out
+		}
+
+		function setSelection(items: HTMLElement[], primary?: HTMLElement | null) {
+			const want = new Set(items)
+			for (const el of Array.from(selection)) if (!want.has(el)) core.select(el, { toggle: true })
+			for (const el of want) if (!selection.has(el)) core.select(el, { add: true })
+			if (primary && want.has(primary) && core.selectedItem !== primary) core.select(primary, { add: true })
+		}
+
+		function stopMarquee() {
+			if (!mq) return
+			if (element.hasPointerCapture(mq.pointerId)) element.releasePointerCapture(mq.pointerId)
+			mq.box?.remove()
+			mq = null
+			element.removeEventListener('pointermove', onMarqueeMove)
+			element.removeEventListener('pointerup', onMarqueeUp)
+			element.removeEventListener('pointercancel', onMarqueeCancel)
+		}
+
+		const onMarqueeDown = (e: PointerEvent) => {
+			// Touch keeps scrolling the page from empty space
+			if (mq || e.button !== 0 || e.pointerType === 'touch' || core.phase === 'interacting') return
+			// Only empty grid space: other children (inputs, toolbars, items) keep their own pointer handling
+			if (e.target !== element) return
+			const startCell = cellAt(e.clientX, e.clientY)
+			if (!startCell) return
+			const before = core.selectedItems
+			mq = {
+				pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, startCell, before, primary: core.selectedItem,
+				base: e.shiftKey || e.ctrlKey || e.metaKey ? before : [], box: null, rect: { cell: startCell, colspan: 1, rowspan: 1 }, items: [],
+			}
+			e.preventDefault()
+			element.setPointerCapture(e.pointerId)
+			element.addEventListener('pointermove', onMarqueeMove)
+			element.addEventListener('pointerup', onMarqueeUp)
+			element.addEventListener('pointercancel', onMarqueeCancel)
+		}
+
+		const onMarqueeMove = (e: PointerEvent) => {
+			if (!mq || e.pointerId !== mq.pointerId) return
+			const fresh = !mq.box
+			if (!mq.box) {
+				if (Math.hypot(e.clientX - mq.startX, e.clientY - mq.startY) < threshold) return
+				if (!core.emit('marquee-start', { ...mq.rect })) { stopMarquee(); return }
+				const box = mq.box = document.createElement('div')
+				box.className = className
+				box.setAttribute('data-egg-marquee', '')
+				box.style.pointerEvents = 'none'; box.style.viewTransitionName = 'none'
+				element.appendChild(box)
+			}
+			const cur = cellAt(e.clientX, e.clientY)
+			if (!cur) return
+			const s = mq.startCell
+			const rect = {
+				cell: { column: Math.min(s.column, cur.column), row: Math.min(s.row, cur.row) },
+				colspan: Math.abs(cur.column - s.column) + 1, rowspan: Math.abs(cur.row - s.row) + 1,
+			}
+			const p = mq.rect
+			if (!fresh && rect.cell.column === p.cell.column && rect.cell.row === p.cell.row && rect.colspan === p.colspan && rect.rowspan === p.rowspan) return
+			mq.rect = rect
+			mq.box.style.gridColumn = `${rect.cell.column} / span ${rect.colspan}`
+			mq.box.style.gridRow = `${rect.cell.row} / span ${rect.rowspan}`
+			mq.items = itemsIn(rect)
+			setSelection([...mq.base, ...mq.items], mq.base.length ? mq.primary : null)
+			core.emit('marquee-move', { ...rect, items: mq.items })
+		}
+
+		const onMarqueeUp = (e: PointerEvent) => {
+			if (!mq || e.pointerId !== mq.pointerId) return
+			const m = mq
+			stopMarquee()
+			// A plain click on empty space clears the selection
+			if (!m.box) { if (!m.base.length) core.deselect(); return }
+			core.emit('marquee-end', { ...m.rect, items: m.items })
+			// Focus the primary item so keyboard moves act on the new selection
+			if (core.selectedItem && options.keyboard !== false) core.selectedItem.focus({ preventScroll: true })
+		}
+
+		const onMarqueeCancel = () => {
+			if (!mq) return
+			const m = mq
+			// Restored while the box is still up so the camera doesn't scroll to it
+			if (m.box) setSelection(m.before, m.primary)
+			stopMarquee()
+			if (!m.box) return
+			core.emit('marquee-cancel', {})
+		}
+
+		// Escape cancels the marquee before the keyboard handler sees it
+		const onMarqueeKey = (e: KeyboardEvent) => {
+			if (e.key !== 'Escape' || !mq) return
+			e.preventDefault(); e.stopPropagation()
+			onMarqueeCancel()
+		}
+
+		element.addEventListener('pointerdown', onMarqueeDown)
+		document.addEventListener('keydown', onMarqueeKey, true)
+		cleanups.push(() => { element.removeEventListener('pointerdown', onMarqueeDown); document.removeEventListener('keydown', onMarqueeKey, true); stopMarquee() })
+	}
+
+	// ── External Sources ───────────────────────────────────────────────────────
+
+	// Linked grids reuse the external drag preview, so `link` turns this on without the palette and native listeners
+	if (options.external || options.link) {
+		const EXTERNAL_THRESHOLD = 5
+		const accept = typeof options.external === 'object' ? options.external.accept ?? [] : []
+
+		// The virtual item being dragged in; `cell` is null while the pointer is off the grid
+		let ext: {
+			source: HTMLElement | null; data: string | null; mode: 'pointer' | 'native' | 'transfer'
+			colspan: number; rowspan: number; cell: GridCell | null; rejected: boolean
+		} | null = null
+		let press: { source: HTMLElement; pointerId: number; startX: number; startY: number; rect: DOMRect; ghost: HTMLElement | null } | null = null
+		let nativeSource: HTMLElement | null = null, nativeInternal = false
+
+		// Items wider than this grid are clamped to its column count
+		function begin(source: HTMLElement | null, mode: 'pointer' | 'native' | 'transfer') {
+			const { colspan, rowspan } = source ? getItemSize(source) : { colspan: 1, rowspan: 1 }
+			const columns = Math.max(1, core.getGridInfo().columns.length)
+			ext = { source, data: source?.getAttribute('data-egg-source') || null, mode, colspan: Math.min(colspan, columns), rowspan, cell: null, rejected: false }
+		}
+
+		function extDetail(extra: Record<string, unknown> = {}) {
+			const { source, data, mode, cell, colspan, rowspan } = ext!
+			return { source, data, cell, colspan, rowspan, mode, ...extra }
+		}
+
+		// Top-left cell for the virtual item centred under the pointer, clamped so it fits
+		function targetCell(x: number, y: number): GridCell | null {
+			const c = ext && core.getCellFromPoint(x, y, 1)
+			if (!ext || !c) return null
+			const gi = core.getGridInfo()
+			const maxCol = Math.max(1, gi.columns.length - ext.colspan + 1)
+			const maxRow = Math.max(1, Math.min(gi.rows.length + 1, maxRows) - ext.rowspan + 1)
+			return {
+				column: Math.max(1, Math.min(maxCol, c.column - Math.floor((ext.colspan - 1) / 2))),
+				row: Math.max(1, Math.min(maxRow, c.row - Math.floor((ext.rowspan - 1) / 2))),
+			}
+		}
+
+		function leave() {
+			if (!ext) return
+			if (ext.cell) core.emit('external-leave', extDetail())
+			ext.cell = null; ext.rejected = false
+		}
+
+		// A vetoed enter is unwound with a leave and ignored until the pointer leaves the grid.
+		// Returns whether the point is over the grid.
+		function track(x: number, y: number, dataTransfer?: DataTransfer | null): boolean {
+			if (!ext) return false
+			const cell = targetCell(x, y)
+			if (!cell) { leave(); return false }
+			if (ext.rejected) return true
+			const prev = ext.cell
+			if (prev && prev.column === cell.column && prev.row === cell.row) return true
+			ext.cell = cell
+			const extra = dataTransfer ? { dataTransfer } : {}
+			if (prev) core.emit('external-move', extDetail(extra))
+			else if (!core.emit('external-enter', extDetail(extra))) { core.emit('external-leave', extDetail()); ext.cell = null; ext.rejected = true }
+			return true
+		}
+
+		// The app creates the real item from the drop (usually core.addItem(el, { cell, colspan, rowspan }))
+		function drop(dataTransfer?: DataTransfer | null) {
+			if (ext?.cell && !ext.rejected) core.emit('external-drop', extDetail(dataTransfer ? { dataTransfer } : {}))
+			ext = null
+		}
+
+		// Pointer drags from palette entries (entries with draggable="true" use native drag-and-drop)
+		const onSourcePointerDown = (e: PointerEvent) => {
+			const source = (e.target as Element).closest<HTMLElement>('[data-egg-source]')
+			if (!source || source.draggable || element.contains(source) || press || ext || e.button !== 0 || core.phase === 'interacting') return
+			press = { source, pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, rect: source.getBoundingClientRect(), ghost: null }
+			source.addEventListener('pointermove', onSourcePointerMove)
+			source.addEventListener('pointerup', onSourcePointerUp)
+			source.addEventListener('pointercancel', onSourcePointerCancel)
+			if (!source.hasPointerCapture(e.pointerId)) source.setPointerCapture(e.pointerId)
+		}
+
+		const onSourcePointerMove = (e: PointerEvent) => {
+			if (!press || e.pointerId !== press.pointerId) return
+			if (!press.ghost) {
+				if (Math.hypot(e.clientX - press.startX, e.clientY - press.startY) < EXTERNAL_THRESHOLD) return
+				let shared = sourceGhosts.get(press.pointerId)
+				if (!shared) {
+					const el = press.source.cloneNode(true) as HTMLElement
+					el.removeAttribute('data-egg-source')
+					el.setAttribute('data-egg-dragging', '')
+					Object.assign(el.style, { position: 'fixed', left: `${press.rect.left}px`, top: `${press.rect.top}px`, width: `${press.rect.width}px`, height: `${press.rect.height}px`, margin: '0', pointerEvents: 'none', zIndex: '100' })
+					document.body.appendChild(el)
+					shared = { el, users: 0 }
+					sourceGhosts.set(press.pointerId, shared)
+				}
+				shared.users++
+				press.ghost = shared.el
+				begin(press.source, 'pointer')
+			}
+			press.ghost.style.left = `${press.rect.left + e.clientX - press.startX}px`
+			press.ghost.style.top = `${press.rect.top + e.clientY - press.startY}px`
+			track(e.clientX, e.clientY)
+		}
+
+		function endPress() {
+			if (!press) return
+			const { source, pointerId, ghost } = press
+			source.removeEventListener('pointermove', onSourcePointerMove)
+			source.removeEventListener('pointerup', onSourcePointerUp)
+			source.removeEventListener('pointercancel', onSourcePointerCancel)
+			if (source.hasPointerCapture(pointerId)) source.releasePointerCapture(pointerId)
+			const shared = ghost && sourceGhosts.get(pointerId)
+			if (shared && --shared.users <= 0) { shared.el.remove(); sourceGhosts.delete(pointerId) }
+			press = null
+		}
+
+		const onSourcePointerUp = (e: PointerEvent) => {
+			if (!press || e.pointerId !== press.pointerId) return
+			if (ext) { track(e.clientX, e.clientY); drop() }
+			endPress()
+		}
+
+		const onSourcePointerCancel = () => { leave(); ext = null; endPress() }
+
+		// Native drag-and-drop: palette entries are recognised by data-egg-source, accepted payload types are a 1×1 item
+		const onNativeDragStart = (e: DragEvent) => {
+			const target = e.target instanceof Element ? e.target : null
+			nativeInternal = !!target && element.contains(target)
+			nativeSource = target?.closest<HTMLElement>('[data-egg-source]') ?? null
+		}
+		const onNativeDragEnd = () => {
+			if (ext?.mode === 'native') { leave(); ext = null }
+			nativeSource = null; nativeInternal = false
+		}
+
+		const onDragOver = (e: DragEvent) => {
+			if (nativeInternal || press) return
+			if (!ext) {
+				if (!nativeSource && !accept.some(type => e.dataTransfer?.types.includes(type))) return
+				begin(nativeSource, 'native')
+			}
+			track(e.clientX, e.clientY, e.dataTransfer)
+			if (!ext?.cell || ext.rejected) return
+			e.preventDefault()
+			if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy'
+		}
+
+		const onDragLeave = (e: DragEvent) => {
+			if (!ext || ext.mode !== 'native' || (e.relatedTarget instanceof Node && element.contains(e.relatedTarget))) return
+			leave()
+			ext = null
+		}
+
+		const onDrop = (e: DragEvent) => {
+			if (!ext || ext.mode !== 'native') return
+			e.preventDefault()
+			track(e.clientX, e.clientY, e.dataTransfer)
+			drop(e.dataTransfer)
+		}
+
+		// Linked grids hand their drags over as external drags with mode 'transfer'
+		if (options.link) {
+			const target: LinkTarget = {
+				element,
+				hover(item, x, y) {
+					if (press || (ext && ext.source !== item)) return false
+					if (!ext) begin(item, 'transfer')
+					const over = track(x, y)
+					if (!over) ext = null
+					return over
+				},
+				leave(item) {
+					if (ext?.source !== item) return
+					leave()
+					ext = null
+				},
+				receive(item, from, done) {
+					if (ext?.source !== item) return done(null)
+					const { cell, colspan, rowspan, rejected } = ext
+					leave()
+					ext = null
+					if (!cell || rejected) return done(null)
+					addElement(item, { cell, colspan, rowspan }, placed => {
+						if (placed) core.emit('transfer-in', { item, from, cell: placed, colspan, rowspan })
+						done(placed)
+					})
+				},
+			}
+			const group = linkedGrids.get(options.link) ?? new Set()
+			linkedGrids.set(options.link, group.add(target))
+			cleanups.push(() => { group.delete(target); if (!group.size) linkedGrids.delete(options.link!) })
+		}
+
+		cleanups.push(() => { leave(); ext = null; endPress() })
+		if (options.external) {
+			document.addEventListener('pointerdown', onSourcePointerDown)
+			document.addEventListener('dragstart', onNativeDragStart)
+			document.addEventListener('dragend', onNativeDragEnd)
+			element.addEventListener('dragenter', onDragOver)
+			element.addEventListener('dragover', onDragOver)
+			element.addEventListener('dragleave', onDragLeave)
+			element.addEventListener('drop', onDrop)
+			cleanups.push(() => {
+				document.removeEventListener('pointerdown', onSourcePointerDown)
+				document.removeEventListener('dragstart', onNativeDragStart)
+				document.removeEventListener('dragend', onNativeDragEnd)
+				element.removeEventListener('dragenter', onDragOver)
+				element.removeEventListener('dragover', onDragOver)
+				element.removeEventListener('dragleave', onDragLeave)
+				element.removeEventListener('drop', onDrop)
+			})
+		}
 	}
 
 	// ── Resize ─────────────────────────────────────────────────────────────────
@@ -483,7 +1755,8 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			const cpg = gi.cellWidth + gi.gap, rpg = gi.cellHeight + gi.gap
 			const SNAP = 0.3
 			let pCS = Math.max(minSize.colspan, Math.min(maxSize.colspan, Math.floor((nW + gi.gap) / cpg + (1 - SNAP))))
-			let pRS = Math.max(minSize.rowspan, Math.min(maxSize.rowspan, Math.floor((nH + gi.gap) / rpg + (1 - SNAP))))
+			const maxRS = handle === 's' || handle === 'se' || handle === 'sw' ? Math.min(maxSize.rowspan, maxRows - startCell.row + 1) : maxSize.rowspan
+			let pRS = Math.max(minSize.rowspan, Math.min(maxRS, Math.floor((nH + gi.gap) / rpg + (1 - SNAP))))
 			let pCol = startCell.column, pRow = startCell.row
 			if (handle === 'w' || handle === 'sw' || handle === 'nw') pCol = startCell.column + origSize.colspan - pCS
 			if (handle === 'n' || handle === 'ne' || handle === 'nw') pRow = startCell.row + origSize.rowspan - pRS
@@ -524,14 +1797,13 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 
 		const onResizeDown = (e: PointerEvent) => {
 			const item = (e.target as HTMLElement).closest('[data-egg-item]') as HTMLElement | null
-			if (!item) return
+			if (!item || isStatic(item) || isIgnoredTarget(e.target as Element, item, ignore)) return
 			const handle = detectHandle(e, item)
 			if (!handle) return
 			e.stopPropagation(); e.preventDefault()
 			core.select(item)
 			const { colspan, rowspan } = getItemSize(item)
-			const s = getComputedStyle(item)
-			const startCell = { column: parseInt(s.gridColumnStart, 10) || 1, row: parseInt(s.gridRowStart, 10) || 1 }
+			const startCell = cellOf(item)
 			const initRect = item.getBoundingClientRect()
 			let sizeLabel: HTMLElement | null = null
 			if (showSizeLabel) {
@@ -549,7 +1821,14 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			item.addEventListener('pointercancel', onResizePointerCancel)
 			core.phase = 'interacting'
 			core.interaction = { type: 'resize', mode: 'pointer', itemId: getItemId(item), element: item, columnCount: core.getGridInfo().columns.length }
-			core.emit('resize-start', { item, cell: startCell, colspan, rowspan, handle, source: 'pointer' })
+			if (!core.emit('resize-start', { item, cell: startCell, colspan, rowspan, handle, source: 'pointer' })) {
+				core.emit('resize-cancel', { item, source: 'pointer' })
+				resetResizeItem(item, e.pointerId, sizeLabel)
+				active = null
+				core.phase = 'selected'
+				core.interaction = null
+				return
+			}
 			item.style.position = 'fixed'; item.style.left = `${initRect.left}px`; item.style.top = `${initRect.top}px`
 			item.style.width = `${initRect.width}px`; item.style.height = `${initRect.height}px`; item.style.zIndex = '100'
 			item.style.viewTransitionName = 'resizing'
@@ -559,7 +1838,7 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			if (active) return
 			const item = (e.target as HTMLElement).closest('[data-egg-item]') as HTMLElement | null
 			if (item) {
-				const h = detectHandle(e, item)
+				const h = isStatic(item) || isIgnoredTarget(e.target as Element, item, ignore) ? null : detectHandle(e, item)
 				if (h !== hoveredHandle || item !== hoveredItem) {
 					if (hoveredItem && hoveredItem !== item) { hoveredItem.style.cursor = ''; hoveredItem.removeAttribute('data-egg-handle-hover') }
 					if (hoveredItem === item && hoveredHandle && !h) item.removeAttribute('data-egg-handle-hover')
@@ -583,6 +1862,7 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 	if (options.keyboard !== false) {
 		let kbMode = false
 		let kbTargetCell: GridCell | null = null
+		let kbGroup: ReturnType<typeof selectedGroup> = null
 		let pendingVtnRestore: { item: HTMLElement; tid: number } | null = null
 
 		const KEY_DIR: Record<string, 'up' | 'down' | 'left' | 'right'> = { ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right', k: 'up', K: 'up', j: 'down', J: 'down', h: 'left', H: 'left', l: 'right', L: 'right' }
@@ -601,10 +1881,11 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 
 		const findItemInDir = (from: GridCell, dir: string, exclude: HTMLElement): HTMLElement | null => {
 			const items = Array.from(element.querySelectorAll('[data-egg-item]')) as HTMLElement[]
+			const layout = options.algorithm === false ? null : syncRects()
 			let best: HTMLElement | null = null, bestDist = Infinity
 			for (const item of items) {
 				if (item === exclude) continue
-				const c = getItemCell(item)
+				const c = layout?.get(getItemId(item)) ?? getItemCell(item)
 				let inDir = false, dist = 0
 				if (dir === 'up') { inDir = c.row < from.row; dist = from.row - c.row + Math.abs(c.column - from.column) * 0.1 }
 				else if (dir === 'down') { inDir = c.row > from.row; dist = c.row - from.row + Math.abs(c.column - from.column) * 0.1 }
@@ -616,6 +1897,9 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 		}
 
 		const onKeyDown = (e: KeyboardEvent) => {
+			const target = e.target instanceof Element ? e.target : null
+			const targetItem = target && element.contains(target) ? target.closest<HTMLElement>('[data-egg-item]') : null
+			if (target && targetItem && isIgnoredTarget(target, targetItem, ignore)) return
 			if (e.key === 'G' && e.shiftKey && !e.ctrlKey && !e.altKey && !e.metaKey) {
 				e.preventDefault()
 				kbMode = !kbMode
@@ -631,10 +1915,15 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			const sel = core.selectedItem
 			const dir = getDir(e.key, e.code)
 
+			if ((e.ctrlKey || e.metaKey) && !e.altKey && (e.key === 'z' || e.key === 'Z')) {
+				if (core.phase !== 'interacting' && (e.shiftKey ? core.redo() : core.undo())) e.preventDefault()
+				return
+			}
+
 			if (e.key === 'Escape') {
 				e.preventDefault()
 				const held = getHeldItem()
-				if (held) { held.removeAttribute('data-egg-dragging'); core.emit('drag-cancel', { item: held, source: 'keyboard' }); core.phase = 'selected'; core.interaction = null; kbTargetCell = null }
+				if (held) { held.removeAttribute('data-egg-dragging'); core.emit('drag-cancel', { item: held, source: 'keyboard' }); core.phase = 'selected'; core.interaction = null; kbTargetCell = null; kbGroup = null }
 				else if (sel) core.deselect()
 				if (kbMode) { kbMode = false; element.removeAttribute('data-egg-keyboard-mode') }
 				return
@@ -644,17 +1933,22 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 				if (!sel) return; e.preventDefault()
 				const held = getHeldItem()
 				if (held) {
-					const tc = kbTargetCell ?? getItemCell(held), sz = getItemSize(held)
+					const tc = kbTargetCell ?? cellOf(held), sz = kbGroup ?? getItemSize(held)
 					held.removeAttribute('data-egg-dragging')
-					core.emit('drag-end', { item: held, cell: tc, colspan: sz.colspan, rowspan: sz.rowspan, source: 'keyboard' })
-					core.phase = 'selected'; core.interaction = null; kbTargetCell = null
-				} else {
-					const itemId = getItemId(sel), sz = getItemSize(sel), sc = getItemCell(sel)
+					core.emit('drag-end', { item: held, ...(kbGroup && { items: kbGroup.items }), cell: tc, colspan: sz.colspan, rowspan: sz.rowspan, source: 'keyboard' })
+					core.phase = 'selected'; core.interaction = null; kbTargetCell = null; kbGroup = null
+				} else if (!isStatic(sel)) {
+					kbGroup = selection.has(sel) ? selectedGroup() : null
+					const itemId = getItemId(sel), sz = kbGroup ?? getItemSize(sel), sc = kbGroup?.cell ?? cellOf(sel)
 					core.phase = 'interacting'
 					core.interaction = { type: 'drag', mode: 'keyboard', itemId, element: sel, columnCount: core.getGridInfo().columns.length }
 					kbTargetCell = sc
 					sel.setAttribute('data-egg-dragging', '')
-					core.emit('drag-start', { item: sel, cell: sc, colspan: sz.colspan, rowspan: sz.rowspan, source: 'keyboard' })
+					if (!core.emit('drag-start', { item: sel, ...(kbGroup && { items: kbGroup.items }), cell: sc, colspan: sz.colspan, rowspan: sz.rowspan, source: 'keyboard' })) {
+						sel.removeAttribute('data-egg-dragging')
+						core.emit('drag-cancel', { item: sel, source: 'keyboard' })
+						core.phase = 'selected'; core.interaction = null; kbTargetCell = null; kbGroup = null
+					}
 				}
 				return
 			}
@@ -662,21 +1956,24 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			if (!dir) return
 			e.preventDefault()
 
-			if (e.altKey && !e.ctrlKey && !e.shiftKey && sel) {
-				const adj = findItemInDir(getItemCell(sel), dir, sel)
-				if (adj) core.select(adj)
+			// Alt+nav: select the adjacent item, Shift+Alt+nav: add it to the selection
+			if (e.altKey && !e.ctrlKey && sel) {
+				const adj = findItemInDir(cellOf(sel), dir, sel)
+				if (adj && !isHolding()) core.select(adj, { add: e.shiftKey })
 				return
 			}
-			if (!sel) return
+			if (!sel || isStatic(sel)) return
 
-			const cc = getItemCell(sel), sz = getItemSize(sel), gi = core.getGridInfo()
+			const gi = core.getGridInfo()
+			const sz = getItemSize(sel)
 
 			// Shift+nav: resize
 			if (e.shiftKey && !e.ctrlKey && !e.altKey) {
+				const cc = (getHeldItem() === sel && !kbGroup && kbTargetCell) || cellOf(sel)
 				let nCS = sz.colspan, nRS = sz.rowspan
 				if (dir === 'right') nCS = Math.min(sz.colspan + 1, gi.columns.length - cc.column + 1)
 				else if (dir === 'left') nCS = Math.max(1, sz.colspan - 1)
-				else if (dir === 'down') nRS = sz.rowspan + 1
+				else if (dir === 'down') nRS = Math.min(sz.rowspan + 1, Math.max(sz.rowspan, maxRows - cc.row + 1))
 				else nRS = Math.max(1, sz.rowspan - 1)
 				if (nCS === sz.colspan && nRS === sz.rowspan) return
 
@@ -685,10 +1982,15 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 				core.phase = 'interacting'
 				core.interaction = { type: 'resize', mode: 'keyboard', itemId: getItemId(sel), element: sel, columnCount: gi.columns.length }
 				;(sel.style as any).viewTransitionName = 'resizing'
-				core.emit('resize-start', { item: sel, cell: cc, colspan: sz.colspan, rowspan: sz.rowspan, handle })
+				if (!core.emit('resize-start', { item: sel, cell: cc, colspan: sz.colspan, rowspan: sz.rowspan, handle, source: 'keyboard' })) {
+					core.emit('resize-cancel', { item: sel, source: 'keyboard' })
+					core.phase = 'selected'; core.interaction = null
+					sel.style.removeProperty('view-transition-name')
+					return
+				}
 				sel.setAttribute('data-egg-colspan', String(nCS))
 				sel.setAttribute('data-egg-rowspan', String(nRS))
-				core.emit('resize-end', { item: sel, cell: cc, colspan: nCS, rowspan: nRS })
+				core.emit('resize-end', { item: sel, cell: cc, colspan: nCS, rowspan: nRS, source: 'keyboard' })
 				core.phase = 'selected'; core.interaction = null
 				const itemToRestore = sel
 				const tid = window.setTimeout(() => { itemToRestore.style.removeProperty('view-transition-name'); if (pendingVtnRestore?.item === itemToRestore) pendingVtnRestore = null }, 250)
@@ -696,21 +1998,29 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 				return
 			}
 
+			// Moves of a multi-selected item carry the whole group; cells and spans are its bounding box
+			const held = getHeldItem()
+			const group = held ? kbGroup : selection.has(sel) ? selectedGroup() : null
+			const cc = (held === sel && kbTargetCell) || group?.cell || cellOf(sel)
+			const { colspan, rowspan } = group ?? sz
+			const items = group ? { items: group.items } : {}
+
 			let amt = 1
-			if (e.ctrlKey || e.metaKey) amt = (dir === 'up' || dir === 'down') ? sz.rowspan : sz.colspan
+			if (e.ctrlKey || e.metaKey) amt = (dir === 'up' || dir === 'down') ? rowspan : colspan
 			const rawCell = getAdjacentCell(cc, dir, amt)
-			const maxCol = Math.max(1, gi.columns.length - sz.colspan + 1)
-			const maxRow = Math.max(1, gi.rows.length - sz.rowspan + 1)
+			const maxCol = Math.max(1, gi.columns.length - colspan + 1)
+			const maxRow = Math.max(1, Math.min(gi.rows.length + 1, maxRows) - rowspan + 1)
 			const tc = { column: Math.max(1, Math.min(maxCol, rawCell.column)), row: Math.max(1, Math.min(maxRow, rawCell.row)) }
 			if (tc.column === cc.column && tc.row === cc.row) return
 
-			const held = getHeldItem()
 			if (held) {
-				kbTargetCell = tc
-				core.emit('drag-move', { item: held, cell: tc, x: 0, y: 0, colspan: sz.colspan, rowspan: sz.rowspan, source: 'keyboard' })
+				// A vetoed target keeps the held item where it was
+				if (core.emit('drag-move', { item: held, ...items, cell: tc, x: 0, y: 0, colspan, rowspan, source: 'keyboard' })) kbTargetCell = tc
+				else core.emit('drag-move', { item: held, ...items, cell: cc, x: 0, y: 0, colspan, rowspan, source: 'keyboard' })
+			} else if (!core.emit('drag-start', { item: sel, ...items, cell: cc, colspan, rowspan, source: 'keyboard' }) || !core.emit('drag-move', { item: sel, ...items, cell: tc, x: 0, y: 0, colspan, rowspan, source: 'keyboard' })) {
+				core.emit('drag-cancel', { item: sel, source: 'keyboard' })
 			} else {
-				core.emit('drag-start', { item: sel, cell: cc, colspan: sz.colspan, rowspan: sz.rowspan, source: 'keyboard' })
-				core.emit('drag-end', { item: sel, cell: tc, colspan: sz.colspan, rowspan: sz.rowspan, source: 'keyboard' })
+				core.emit('drag-end', { item: sel, ...items, cell: tc, colspan, rowspan, source: 'keyboard' })
 			}
 		}
 
@@ -721,18 +2031,19 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 	// ── Algorithm Harness (unified drag + resize) ──────────────────────────────
 
 	if (options.algorithm !== false) {
-		const algoType = options.algorithm ?? 'push'
-		const compact = options.compaction ?? true
-		const layoutModel = options.responsive?.layoutModel ?? options.layoutModel
 
 		function getColumnCount(): number {
 			const s = getComputedStyle(element)
 			return Math.max(1, s.gridTemplateColumns.split(' ').filter(Boolean).length)
 		}
 
+		// Group drags: events carry the members' bounding box, and each member is laid out at its offset
+		// inside it (runGroupLayout)
+		type DragGroup = { offsets: Map<string, GridCell>; colspan: number; rowspan: number }
+
 		// Unified interaction state
 		let ix: {
-			type: 'drag' | 'resize'
+			type: 'drag' | 'resize' | 'external'
 			itemId: string; element: HTMLElement; source: string
 			columnCount: number
 			originals: Map<string, ItemRect>
@@ -740,23 +2051,136 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			lastResize: { cell: GridCell; colspan: number; rowspan: number } | null
 			layout: ItemRect[] | null
 			version: number
+			group: DragGroup | null
+			// egg-layout-refused fires once per interaction, not again on the drop that repeats it
+			refused: boolean
 		} | null = null
 		let layoutVersion = 0
 
+		function makeGroup(els: HTMLElement[], originals: Map<string, ItemRect>): DragGroup | null {
+			const rs = els.map(el => originals.get(getItemId(el))).filter((r): r is ItemRect => !!r)
+			if (rs.length < 2) return null
+			const c1 = Math.min(...rs.map(r => r.column)), r1 = Math.min(...rs.map(r => r.row))
+			return {
+				offsets: new Map(rs.map(r => [r.id, { column: r.column - c1, row: r.row - r1 }] as const)),
+				colspan: Math.max(...rs.map(r => r.column + r.width)) - c1, rowspan: Math.max(...rs.map(r => r.row + r.height)) - r1,
+			}
+		}
+
+		// Where the dragged block landed: the item's own cell, or the group's bounding box
+		function placedCell(cur: NonNullable<typeof ix>, layout: ItemRect[]): GridCell | null {
+			const r = layout.find(i => i.id === cur.itemId)
+			if (!r) return null
+			const off = cur.group?.offsets.get(cur.itemId)
+			return off ? { column: r.column - off.column, row: r.row - off.row } : { column: r.column, row: r.row }
+		}
+
+		function makeRequest(items: ItemRect[], movedId: string, cell: GridCell, cols: number): LayoutRequest {
+			return { items, movedId, cell, columns: cols, maxRows, compaction }
+		}
+
+		function resizeSize(colspan?: number, rowspan?: number) {
+			return ix?.type === 'resize' && colspan != null && rowspan != null ? { colspan, rowspan } : undefined
+		}
+
+		// Member offsets when `movedId` is the grabbed item of a group drag
+		function groupOffsets(movedId: string): Map<string, GridCell> | undefined {
+			return ix?.type === 'drag' && ix.itemId === movedId ? ix.group?.offsets : undefined
+		}
+
+		function runPass(req: LayoutRequest, size?: { colspan: number; rowspan: number }, offsets?: Map<string, GridCell>): ItemRect[] {
+			return offsets ? runGroupLayout(algorithm, req, offsets) : runLayout(algorithm, req, size)
+		}
+
 		function calcLayout(items: ItemRect[], movedId: string, cell: GridCell, cols: number, colspan?: number, rowspan?: number): ItemRect[] {
-			if (ix?.type === 'resize' && colspan != null && rowspan != null) {
-				const updated = items.map(i => i.id === movedId ? { ...i, column: cell.column, row: cell.row, width: colspan, height: rowspan } : i)
-				return calculatePushLayout(updated, movedId, cell, compact)
+			return runPass(makeRequest(items, movedId, cell, cols), resizeSize(colspan, rowspan), groupOffsets(movedId))
+		}
+
+		// Preview layouts can run in a worker. Only the latest request is honoured: each one bumps
+		// layoutVersion, so any result overtaken by a newer request or an applied layout is dropped.
+		// Custom algorithms can't cross the worker boundary and always run synchronously.
+		const algorithmName = typeof options.algorithm === 'object' ? null : options.algorithm && options.algorithm in ALGORITHMS ? options.algorithm : 'push'
+		let worker: Worker | null = null
+		if (options.worker && algorithmName && typeof Worker !== 'undefined') {
+			try {
+				worker = typeof options.worker === 'function' ? options.worker() : new Worker(new URL('./layout-worker.ts', import.meta.url), { type: 'module' })
+			} catch { worker = null }
+		}
+		let pendingPreview: { version: number; req: LayoutRequest; size?: { colspan: number; rowspan: number }; offsets?: Map<string, GridCell>; done: (layout: ItemRect[]) => void } | null = null
+
+		if (worker) {
+			const w = worker
+			w.onmessage = (e: MessageEvent) => {
+				const { version, layout } = e.data as { version: number; layout: ItemRect[] }
+				const p = pendingPreview
+				if (!p || p.version !== version) return
+				pendingPreview = null
+				if (version === layoutVersion) p.done(layout)
+			}
+			// A broken worker falls back to synchronous calculation for the rest of the session
+			w.onerror = () => {
+				w.terminate(); worker = null
+				const p = pendingPreview
+				pendingPreview = null
+				if (p && p.version === layoutVersion) p.done(runPass(p.req, p.size, p.offsets))
 			}
-			return calculatePushLayout(items, movedId, cell, compact)
+			cleanups.push(() => { w.terminate(); worker = null })
 		}
 
-		function getItemsWithOriginals(excludeId: string | null, originals: Map<string, ItemRect>): ItemRect[] {
-			return readItemsFromDOM(element).map(item => {
-				const orig = originals.get(item.id)
-				if (orig && item.id !== excludeId) return { ...item, column: orig.column, row: orig.row }
-				return item
-			})
+		function calcPreview(items: ItemRect[], movedId: string, cell: GridCell, cols: number, done: (layout: ItemRect[]) => void, colspan?: number, rowspan?: number) {
+			const req = makeRequest(items, movedId, cell, cols), size = resizeSize(colspan, rowspan), offsets = groupOffsets(movedId)
+			if (!worker) { done(runPass(req, size, offsets)); return }
+			const version = ++layoutVersion
+			pendingPreview = { version, req, size, offsets, done }
+			worker.postMessage({ version, algorithm: algorithmName, req, size, offsets })
+		}
+
+		// Layouts past maxRows are refused: the preview stays on the last valid layout
+		function refuse(detail: { item: HTMLElement; cell: GridCell; colspan: number; rowspan: number; source: string }) {
+			const cur = ix
+			if (!cur?.refused) core.emit('layout-refused', { item: detail.item, cell: detail.cell, colspan: detail.colspan, rowspan: detail.rowspan, maxRows, source: detail.source })
+			if (!cur) return
+			cur.refused = true
+			const layout = cur.layout ?? Array.from(cur.originals.values())
+			const last = layout.find(i => i.id === cur.itemId), cell = placedCell(cur, layout), g = cur.group
+			if (last && cell) queueMicrotask(() => core.emit('drop-preview', { item: detail.item, cell, colspan: g ? g.colspan : last.width, rowspan: g ? g.rowspan : last.height }))
+		}
+
+		function isValid(layout: ItemRect[], movedId: string, cell: GridCell, cols: number): boolean {
+			if (!algorithm.validate) return true
+			// Every member of a group drag must land somewhere the algorithm accepts
+			const g = ix?.itemId === movedId ? ix.group : null
+			if (!g) return algorithm.validate(layout, makeRequest(layout, movedId, cell, cols))
+			return Array.from(g.offsets).every(([id, off]) => algorithm.validate!(layout, makeRequest(layout, id, { column: cell.column + off.column, row: cell.row + off.row }, cols)))
+		}
+
+		// Placeholder feedback, deferred past the placeholder's own move handler. Invalid targets are
+		// flagged; algorithms that don't honour the target cell (reflow) move it to the real slot.
+		function previewDrop(layout: ItemRect[], detail: { item: HTMLElement; cell: GridCell; colspan: number; rowspan: number; source: string }, cols: number) {
+			if (!isValid(layout, ix?.itemId ?? getItemId(detail.item), detail.cell, cols)) {
+				queueMicrotask(() => core.emit('drop-invalid', { item: detail.item, cell: detail.cell, colspan: detail.colspan, rowspan: detail.rowspan, source: detail.source }))
+				return
+			}
+			const moved = ix && placedCell(ix, layout)
+			if (!moved || (moved.column === detail.cell.column && moved.row === detail.cell.row)) return
+			queueMicrotask(() => core.emit('drop-preview', { item: detail.item, cell: moved, colspan: detail.colspan, rowspan: detail.rowspan }))
+		}
+
+		function restoreOriginals(originals: Map<string, ItemRect>) {
+			rolledBack = true
+			for (const el of element.querySelectorAll<HTMLElement>('[data-egg-item]')) {
+				const orig = originals.get(getItemId(el)), sz = orig && getItemSize(el)
+				if (!orig || !sz || (sz.colspan === orig.width && sz.rowspan === orig.height)) continue
+				el.setAttribute('data-egg-colspan', String(orig.width)); el.setAttribute('data-egg-rowspan', String(orig.height))
+			}
+			const restoreLayout = Array.from(originals.values())
+			const restore = () => applyLayout(restoreLayout, null, false)
+			if ('startViewTransition' in document) (document as any).startViewTransition(restore)
+			else restore()
+		}
+
+		function getOriginalItems(originals: Map<string, ItemRect>): ItemRect[] {
+			return Array.from(originals.values(), item => ({ ...item }))
 		}
 
 		function getResizeItems(originals: Map<string, ItemRect>, resizedId: string, cell: GridCell, colspan: number, rowspan: number): ItemRect[] {
@@ -793,29 +2217,55 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			} else doApply()
 		}
 
-		function saveAndClear(layout: ItemRect[], cols: number, afterSave?: () => void) {
-			if (!layoutModel || !cols) return
-			const positions = new Map<string, { column: number; row: number }>()
-			for (const item of layout) positions.set(item.id, { column: item.column, row: item.row })
-			layoutModel.saveLayout(cols, positions)
-			afterSave?.()
-			core.previewCSS = ''
-			core.commitStyles()
-			core.emit('layout-change', { items: layout, columnCount: cols })
+		// Without a layout model the preview CSS stays in place as the committed layout. A refused
+		// save restores the originals (egg-layout-refused).
+		function saveAndClear(layout: ItemRect[], cols: number, originals: Map<string, ItemRect>, item: HTMLElement | null, source: string) {
+			if (!cols) return
+			if (layoutModel) {
+				if (!saveToModel(layoutModel, layout, cols, originals)) {
+					commitRects(Array.from(originals.values()))
+					restoreOriginals(originals)
+					refuseLayout(layout, item, source)
+					return
+				}
+				core.previewCSS = ''
+				core.commitStyles()
+			}
+			core.emit('layout-change', { items: layout, order: getReadingOrder(layout), columnCount: cols })
+		}
+
+		commitLayout = (layout, animate) => {
+			if (commitPending) return
+			if (ix) onCancel()
+			externalDrop = null
+			const cols = getColumnCount()
+			const originals = new Map(Array.from(syncRects(), ([id, r]) => [id, { ...r }]))
+			for (const r of layout) {
+				const el = findItem(r.id), sz = el && getItemSize(el)
+				if (!el || !sz || (sz.colspan === r.width && sz.rowspan === r.height)) continue
+				el.setAttribute('data-egg-colspan', String(r.width))
+				el.setAttribute('data-egg-rowspan', String(r.height))
+			}
+			commitRects(layout)
+			applyLayout(layout, null, animate, () => saveAndClear(layout, cols, originals, null, 'api'))
 		}
+		cleanups.push(() => { commitLayout = null })
 
 		// Event handlers
 		const onStart = (e: Event) => {
+			// No new interactions until a pending commit is confirmed or rolled back
+			if (commitPending) { e.preventDefault(); return }
 			const detail = (e as CustomEvent).detail
 			const isDrag = e.type === 'egg-drag-start'
 			const itemId = getItemId(detail.item)
-			const items = readItemsFromDOM(element)
+			const items = Array.from(syncRects().values(), i => ({ ...i }))
 			const originals = new Map<string, ItemRect>()
 			for (const i of items) originals.set(i.id, { ...i })
 
 			ix = {
 				type: isDrag ? 'drag' : 'resize', itemId, element: detail.item, source: detail.source,
 				columnCount: getColumnCount(), originals, pendingCell: null, lastResize: null, layout: null, version: 0,
+				group: isDrag && Array.isArray(detail.items) ? makeGroup(detail.items, originals) : null, refused: false,
 			}
 
 			// Clear inline styles so CSS injection takes effect
@@ -836,18 +2286,26 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			if (ix.type === 'drag') {
 				if (core.cameraScrolling) { ix.pendingCell = detail.cell; return }
 				ix.pendingCell = null
-				const items = getItemsWithOriginals(ix.itemId, ix.originals)
-				const layout = calcLayout(items, ix.itemId, detail.cell, ix.columnCount)
-				const excludeId = ix.source === 'keyboard' ? null : ix.itemId
-				applyLayout(layout, excludeId, true)
+				const cur = ix
+				calcPreview(getOriginalItems(cur.originals), cur.itemId, detail.cell, cur.columnCount, layout => {
+					if (ix !== cur) return
+					if (exceedsRows(layout)) return refuse(detail)
+					applyLayout(layout, cur.source === 'keyboard' ? null : cur.itemId, true)
+					previewDrop(layout, detail, cur.columnCount)
+				})
 			} else {
 				// Resize move — deduplicate
 				const { cell, colspan, rowspan } = detail
 				if (ix.lastResize && ix.lastResize.cell.column === cell.column && ix.lastResize.cell.row === cell.row && ix.lastResize.colspan === colspan && ix.lastResize.rowspan === rowspan) return
 				ix.lastResize = { cell: { ...cell }, colspan, rowspan }
-				const items = getResizeItems(ix.originals, ix.itemId, cell, colspan, rowspan)
-				const layout = calcLayout(items, ix.itemId, cell, ix.columnCount, colspan, rowspan)
-				applyLayout(layout, ix.itemId, true)
+				const cur = ix
+				const items = getResizeItems(cur.originals, cur.itemId, cell, colspan, rowspan)
+				calcPreview(items, cur.itemId, cell, cur.columnCount, layout => {
+					if (ix !== cur) return
+					if (exceedsRows(layout)) return refuse(detail)
+					applyLayout(layout, cur.itemId, true)
+					previewDrop(layout, detail, cur.columnCount)
+				}, colspan, rowspan)
 			}
 		}
 
@@ -855,14 +2313,14 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			if (!ix) return
 			const detail = (e as CustomEvent).detail
 			const savedIx = ix
+			pendingPreview = null
 
 			if (savedIx.element.style.viewTransitionName === 'dragging') savedIx.element.style.viewTransitionName = ''
 			const useVT = savedIx.source !== 'pointer'
 
 			let finalLayout: ItemRect[]
 			if (savedIx.type === 'drag') {
-				const items = getItemsWithOriginals(savedIx.itemId, savedIx.originals)
-				finalLayout = calcLayout(items, savedIx.itemId, detail.cell, savedIx.columnCount)
+				finalLayout = calcLayout(getOriginalItems(savedIx.originals), savedIx.itemId, detail.cell, savedIx.columnCount)
 			} else {
 				const items = getResizeItems(savedIx.originals, savedIx.itemId, detail.cell, detail.colspan, detail.rowspan)
 				finalLayout = calcLayout(items, savedIx.itemId, detail.cell, savedIx.columnCount, detail.colspan, detail.rowspan)
@@ -872,19 +2330,128 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			const isResize = savedIx.type === 'resize'
 			const savedItemId = savedIx.itemId
 
-			applyLayout(finalLayout, null, useVT, () =>
-				saveAndClear(finalLayout, savedCols, isResize ? () => layoutModel?.updateItemSize(savedItemId, { width: detail.colspan, height: detail.rowspan }) : undefined),
-			)
+			if (!isValid(finalLayout, savedItemId, detail.cell, savedCols)) {
+				core.emit('drop-invalid', { item: savedIx.element, cell: detail.cell, colspan: detail.colspan, rowspan: detail.rowspan, source: savedIx.source })
+				restoreOriginals(savedIx.originals)
+				ix = null
+				return
+			}
+			if (exceedsRows(finalLayout)) {
+				refuse({ ...detail, item: savedIx.element, source: savedIx.source })
+				if (!savedIx.layout) { restoreOriginals(savedIx.originals); ix = null; return }
+				finalLayout = savedIx.layout
+			}
+			// Vetoed commits revert like a cancel
+			if (!beforeCommit(savedIx.element, finalLayout, savedIx.type, savedIx.source)) {
+				restoreOriginals(savedIx.originals)
+				ix = null
+				return
+			}
+			const finalRect = finalLayout.find(i => i.id === savedItemId)
+			if (isResize && finalRect) {
+				savedIx.element.setAttribute('data-egg-colspan', String(finalRect.width))
+				savedIx.element.setAttribute('data-egg-rowspan', String(finalRect.height))
+			}
+
+			if (!options.beforeCommit) {
+				commitRects(finalLayout)
+				applyLayout(finalLayout, null, useVT, () => saveAndClear(finalLayout, savedCols, savedIx.originals, savedIx.element, savedIx.source))
+				ix = null
+				return
+			}
+
+			// Async confirmation: show the drop while pending, then save or roll back to the originals
+			const item = savedIx.element, originals = savedIx.originals, source = savedIx.source
+			let confirmation: Promise<unknown>
+			try { confirmation = Promise.resolve(options.beforeCommit(finalLayout)) } catch (err) { confirmation = Promise.reject(err) }
+			commitPending = true
+			item.setAttribute('data-egg-pending', '')
+			applyLayout(finalLayout, null, useVT)
 			ix = null
+			confirmation.then(
+				() => {
+					commitRects(finalLayout)
+					applyLayout(finalLayout, null, false, () => saveAndClear(finalLayout, savedCols, originals, item, source))
+				},
+				reason => {
+					restoreOriginals(originals)
+					core.emit('commit-rejected', { item, layout: finalLayout, originals: Array.from(originals.values()), reason })
+				},
+			).finally(() => {
+				commitPending = false
+				item.removeAttribute('data-egg-pending')
+			})
 		}
 
 		const onCancel = () => {
 			if (!ix) return
-			const restoreLayout = Array.from(ix.originals.values())
-			const restore = () => applyLayout(restoreLayout, null, false)
-			if ('startViewTransition' in document) (document as any).startViewTransition(restore)
-			else restore()
+			pendingPreview = null
+			if (ix.element.style.viewTransitionName === 'dragging') ix.element.style.viewTransitionName = ''
+			restoreOriginals(ix.originals)
+			ix = null
+		}
+
+		// A drag offered to a linked grid previews this grid without the item (compacted)
+		const onDragLeave = () => {
+			if (ix?.type !== 'drag') return
+			pendingPreview = null
+			const cur = ix
+			let layout = getOriginalItems(cur.originals).filter(i => i.id !== cur.itemId)
+			if (compaction && algorithm.compact) layout = algorithm.compact(layout, makeRequest(layout, '', cellOf(cur.element), cur.columnCount))
+			applyLayout(layout, cur.itemId, true)
+		}
+
+		// External drags preview a virtual item pushed in at the target cell. A drop keeps the preview for
+		// the app to turn into a real item during egg-external-drop; if it doesn't, the layout snaps back.
+		const EXTERNAL_ID = '\0egg-external'
+		let externalDrop: Map<string, ItemRect> | null = null
+
+		function previewExternal(detail: { source: HTMLElement | null; cell: GridCell; colspan: number; rowspan: number; mode: string }) {
+			const cur = ix!
+			const items = [...getOriginalItems(cur.originals), { id: EXTERNAL_ID, ...detail.cell, width: detail.colspan, height: detail.rowspan }]
+			const feedback = { item: detail.source ?? element, cell: detail.cell, colspan: detail.colspan, rowspan: detail.rowspan, source: detail.mode }
+			calcPreview(items, EXTERNAL_ID, detail.cell, cur.columnCount, layout => {
+				if (ix !== cur) return
+				if (exceedsRows(layout)) return refuse(feedback)
+				applyLayout(layout, EXTERNAL_ID, true)
+				previewDrop(layout, feedback, cur.columnCount)
+			})
+		}
+
+		const onExternalEnter = (e: Event) => {
+			if (ix || commitPending) return
+			const detail = (e as CustomEvent).detail
+			const originals = new Map<string, ItemRect>()
+			for (const i of syncRects().values()) originals.set(i.id, { ...i })
+			ix = {
+				type: 'external', itemId: EXTERNAL_ID, element: detail.source ?? element, source: detail.mode,
+				columnCount: getColumnCount(), originals, pendingCell: null, lastResize: null, layout: null, version: 0, group: null, refused: false,
+			}
+			for (const el of element.querySelectorAll<HTMLElement>('[data-egg-item]')) { el.style.gridColumn = ''; el.style.gridRow = '' }
+			core.previewCSS = layoutToCSS(getOriginalItems(originals), { maxColumns: ix.columnCount })
+			core.commitStyles()
+			previewExternal(detail)
+		}
+
+		const onExternalMove = (e: Event) => {
+			if (ix?.type === 'external') previewExternal((e as CustomEvent).detail)
+		}
+
+		const onExternalLeave = () => {
+			if (ix?.type === 'external') onCancel()
+		}
+
+		const onExternalDrop = () => {
+			if (ix?.type !== 'external') return
+			const originals = ix.originals
+			pendingPreview = null
 			ix = null
+			externalDrop = originals
+			queueMicrotask(() => {
+				if (externalDrop !== originals) return
+				externalDrop = null
+				applyLayout(Array.from(originals.values()), null, true)
+			})
 		}
 
 		const onCameraSettled = () => {
@@ -892,20 +2459,24 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			let cell = ix.pendingCell
 			if (!cell && ix.element) {
 				const r = ix.element.getBoundingClientRect()
-				cell = core.getCellFromPoint(r.left + r.width / 2, r.top + r.height / 2)
+				cell = core.getCellFromPoint(r.left + r.width / 2, r.top + r.height / 2, 1)
+				const off = cell && ix.group?.offsets.get(ix.itemId)
+				if (cell && off) cell = { column: Math.max(1, cell.column - off.column), row: Math.max(1, cell.row - off.row) }
 			}
 			if (!cell) return
 			ix.pendingCell = null
-			const items = getItemsWithOriginals(ix.itemId, ix.originals)
-			const layout = calcLayout(items, ix.itemId, cell, ix.columnCount)
-			const excludeId = ix.source === 'keyboard' ? null : ix.itemId
-			applyLayout(layout, excludeId, true)
+			const cur = ix
+			calcPreview(getOriginalItems(cur.originals), cur.itemId, cell, cur.columnCount, layout => {
+				if (ix !== cur || exceedsRows(layout)) return
+				applyLayout(layout, cur.source === 'keyboard' ? null : cur.itemId, true)
+			})
 		}
 
 		const events: Record<string, EventListener> = {
-			'egg-drag-start': onStart, 'egg-drag-move': onMove, 'egg-drag-end': onEnd, 'egg-drag-cancel': onCancel,
+			'egg-drag-start': onStart, 'egg-drag-move': onMove, 'egg-drag-end': onEnd, 'egg-drag-cancel': onCancel, 'egg-drag-leave': onDragLeave,
 			'egg-resize-start': onStart, 'egg-resize-move': onMove, 'egg-resize-end': onEnd, 'egg-resize-cancel': onCancel,
 			'egg-camera-settled': onCameraSettled,
+			'egg-external-enter': onExternalEnter, 'egg-external-move': onExternalMove, 'egg-external-leave': onExternalLeave, 'egg-external-drop': onExternalDrop,
 		}
 		for (const [name, handler] of Object.entries(events)) element.addEventListener(name, handler)
 		cleanups.push(() => { for (const [name, handler] of Object.entries(events)) element.removeEventListener(name, handler) })
@@ -969,12 +2540,14 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 		const onCamPtrMove = (e: PointerEvent) => { if (!isDragging) return; lastPX = e.clientX; lastPY = e.clientY; if (rafId === null) rafId = requestAnimationFrame(scrollLoop) }
 		const stopLoop = () => { if (rafId !== null) { cancelAnimationFrame(rafId); rafId = null }; setScrolling(false) }
 
+		// Programmatic moves (source 'api') never scroll the page
 		const camEvents: Record<string, EventListener> = {
-			'egg-drag-start': ((e: CustomEvent) => { isDragging = true; dragSrc = e.detail.source; if (dragSrc === 'pointer') window.addEventListener('pointermove', onCamPtrMove) }) as EventListener,
-			'egg-drag-move': ((e: CustomEvent) => { if (e.detail.source === 'pointer') { lastPX = e.detail.x; lastPY = e.detail.y } else requestAnimationFrame(() => e.detail.item.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' })) }) as EventListener,
-			'egg-drag-end': ((e: CustomEvent) => { const wp = dragSrc === 'pointer'; isDragging = false; dragSrc = null; stopLoop(); if (wp) window.removeEventListener('pointermove', onCamPtrMove); if (!wp) setTimeout(() => requestAnimationFrame(() => e.detail.item.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' })), 100) }) as EventListener,
+			'egg-drag-start': ((e: CustomEvent) => { if (e.detail.source === 'api') return; isDragging = true; dragSrc = e.detail.source; if (dragSrc === 'pointer') window.addEventListener('pointermove', onCamPtrMove) }) as EventListener,
+			'egg-drag-move': ((e: CustomEvent) => { if (e.detail.source === 'pointer') { lastPX = e.detail.x; lastPY = e.detail.y } else if (e.detail.source === 'keyboard') requestAnimationFrame(() => e.detail.item.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' })) }) as EventListener,
+			'egg-drag-end': ((e: CustomEvent) => { const wp = dragSrc === 'pointer'; isDragging = false; dragSrc = null; stopLoop(); if (wp) window.removeEventListener('pointermove', onCamPtrMove); if (e.detail.source === 'keyboard') setTimeout(() => requestAnimationFrame(() => e.detail.item.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' })), 100) }) as EventListener,
 			'egg-drag-cancel': (() => { const wp = dragSrc === 'pointer'; isDragging = false; dragSrc = null; stopLoop(); if (wp) window.removeEventListener('pointermove', onCamPtrMove) }) as EventListener,
-			'egg-select': ((e: CustomEvent) => { if (!isDragging) e.detail.item.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' }) }) as EventListener,
+			// Marquee selections stay put: the box is under the pointer already
+			'egg-select': ((e: CustomEvent) => { if (!isDragging && !element.querySelector(':scope > [data-egg-marquee]')) e.detail.item.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' }) }) as EventListener,
 		}
 		for (const [name, handler] of Object.entries(camEvents)) element.addEventListener(name, handler)
 		cleanups.push(() => { stopLoop(); for (const [name, handler] of Object.entries(camEvents)) element.removeEventListener(name, handler) })
@@ -993,14 +2566,20 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 
 		const phEvents: Record<string, EventListener> = {
 			'egg-drag-start': ((e: CustomEvent) => { createPH(); updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
-			'egg-drag-move': ((e: CustomEvent) => { updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
+			'egg-drag-move': ((e: CustomEvent) => { createPH(); ph?.removeAttribute('data-egg-invalid'); updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
 			'egg-drop-preview': ((e: CustomEvent) => { updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
+			'egg-drop-invalid': (() => { ph?.setAttribute('data-egg-invalid', '') }) as EventListener,
 			'egg-drag-end': (() => removePH()) as EventListener,
 			'egg-drag-cancel': (() => removePH()) as EventListener,
+			'egg-drag-leave': (() => removePH()) as EventListener,
 			'egg-resize-start': ((e: CustomEvent) => { createPH(); updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
-			'egg-resize-move': ((e: CustomEvent) => { updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
+			'egg-resize-move': ((e: CustomEvent) => { ph?.removeAttribute('data-egg-invalid'); updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
 			'egg-resize-end': (() => removePH()) as EventListener,
 			'egg-resize-cancel': (() => removePH()) as EventListener,
+			'egg-external-enter': ((e: CustomEvent) => { createPH(); updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
+			'egg-external-move': ((e: CustomEvent) => { ph?.removeAttribute('data-egg-invalid'); updatePH(e.detail.cell.column, e.detail.cell.row, e.detail.colspan, e.detail.rowspan) }) as EventListener,
+			'egg-external-leave': (() => removePH()) as EventListener,
+			'egg-external-drop': (() => removePH()) as EventListener,
 		}
 		for (const [name, handler] of Object.entries(phEvents)) element.addEventListener(name, handler)
 		document.addEventListener('pointerup', () => requestAnimationFrame(() => { if (ph && !document.querySelector('[data-egg-dragging]') && !document.querySelector('[data-egg-resizing]')) removePH() }))
@@ -1024,16 +2603,18 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			return t ? t.replace(/\{(\w+)\}/g, (_, k) => vars[k] ?? '') : fallback
 		}
 
-		const a11yEvents: Record<string, EventListener> = {
+		const a11yHandlers: Record<string, EventListener> = {
 			'egg-drag-start': ((e: CustomEvent) => { lastA11yCell = e.detail.cell; const l = label(e.detail.item), p = pos(e.detail.cell); announce(tpl(e.detail.item, 'grab', { label: l, row: String(e.detail.cell.row), column: String(e.detail.cell.column) }, `${l} grabbed. Position ${p}. Use arrow keys to move, Enter to drop, Escape to cancel.`)) }) as EventListener,
 			'egg-drag-move': ((e: CustomEvent) => { const c = e.detail.cell; if (lastA11yCell && c.row === lastA11yCell.row && c.column === lastA11yCell.column) return; lastA11yCell = c; announce(tpl(e.detail.item, 'move', { label: label(e.detail.item), row: String(c.row), column: String(c.column) }, `Moved to ${pos(c)}.`)) }) as EventListener,
-			'egg-drag-end': ((e: CustomEvent) => { lastA11yCell = null; const l = label(e.detail.item), p = pos(e.detail.cell); announce(tpl(e.detail.item, 'drop', { label: l, row: String(e.detail.cell.row), column: String(e.detail.cell.column) }, `${l} dropped at ${p}.`)) }) as EventListener,
+			'egg-drag-end': ((e: CustomEvent) => { lastA11yCell = null; const l = label(e.detail.item), p = pos(e.detail.cell); if (e.detail.removed) return announce(tpl(e.detail.item, 'remove', { label: l }, `${l} removed.`)); announce(tpl(e.detail.item, 'drop', { label: l, row: String(e.detail.cell.row), column: String(e.detail.cell.column) }, `${l} dropped at ${p}.`)) }) as EventListener,
 			'egg-drag-cancel': ((e: CustomEvent) => { lastA11yCell = null; announce(tpl(e.detail.item, 'cancel', { label: label(e.detail.item) }, `${label(e.detail.item)} drag cancelled.`)) }) as EventListener,
 			'egg-resize-start': ((e: CustomEvent) => { lastA11ySize = { colspan: e.detail.colspan, rowspan: e.detail.rowspan }; const sz = `${e.detail.colspan} columns by ${e.detail.rowspan} rows`; announce(tpl(e.detail.item, 'resize-start', { label: label(e.detail.item), colspan: String(e.detail.colspan), rowspan: String(e.detail.rowspan) }, `${label(e.detail.item)} resize started. Size ${sz}.`)) }) as EventListener,
 			'egg-resize-move': ((e: CustomEvent) => { if (lastA11ySize && e.detail.colspan === lastA11ySize.colspan && e.detail.rowspan === lastA11ySize.rowspan) return; lastA11ySize = { colspan: e.detail.colspan, rowspan: e.detail.rowspan }; announce(tpl(e.detail.item, 'resize-move', { label: label(e.detail.item), colspan: String(e.detail.colspan), rowspan: String(e.detail.rowspan) }, `Resized to ${e.detail.colspan} columns by ${e.detail.rowspan} rows.`)) }) as EventListener,
 			'egg-resize-end': ((e: CustomEvent) => { lastA11ySize = null; const sz = `${e.detail.colspan} columns by ${e.detail.rowspan} rows`; announce(tpl(e.detail.item, 'resize-end', { label: label(e.detail.item), colspan: String(e.detail.colspan), rowspan: String(e.detail.rowspan), row: String(e.detail.cell.row), column: String(e.detail.cell.column) }, `${label(e.detail.item)} resized to ${sz} at ${pos(e.detail.cell)}.`)) }) as EventListener,
 			'egg-resize-cancel': ((e: CustomEvent) => { lastA11ySize = null; announce(tpl(e.detail.item, 'resize-cancel', { label: label(e.detail.item) }, `${label(e.detail.item)} resize cancelled.`)) }) as EventListener,
 		}
+		// Programmatic moves and resizes (source 'api') aren't the user's doing, so they aren't announced
+		const a11yEvents: Record<string, EventListener> = Object.fromEntries(Object.entries(a11yHandlers).map(([name, handler]) => [name, ((e: CustomEvent) => { if (e.detail.source !== 'api') handler(e) }) as EventListener]))
 		for (const [name, handler] of Object.entries(a11yEvents)) element.addEventListener(name, handler)
 		cleanups.push(() => { live.remove(); for (const [name, handler] of Object.entries(a11yEvents)) element.removeEventListener(name, handler) })
 	}
@@ -1060,7 +2641,8 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 		}
 
 		if (!core.baseCSS.trim()) injectCSS()
-		const unsub = layoutModel.subscribe(() => injectCSS())
+		// Our own commits already updated the rects; anything else changed positions under us
+		const unsub = layoutModel.subscribe(() => { injectCSS(); if (!committing) rectsStale = true })
 
 		let lastColCount = layoutModel.currentColumnCount
 		const ro = new ResizeObserver(() => {
@@ -1068,6 +2650,7 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 			const newCount = Math.max(1, s.gridTemplateColumns.split(' ').filter(Boolean).length)
 			if (newCount !== lastColCount) {
 				const prev = lastColCount; lastColCount = newCount
+				rectsStale = true
 				layoutModel.setCurrentColumnCount(newCount)
 				element.dispatchEvent(new CustomEvent('egg-column-count-change', { bubbles: true, detail: { previousCount: prev, currentCount: newCount } }))
 			}
@@ -1081,6 +2664,8 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 	// already injected CSS (it writes to baseCSS).
 	if (!options.responsive && !core.baseCSS) {
 		const items = readItemsFromDOM(element)
+		for (const r of items) rects.set(r.id, r)
+		rectsStale = false
 		core.baseCSS = layoutToCSS(items)
 		core.commitStyles()
 		element.querySelectorAll('[data-egg-item]').forEach(el => {
@@ -1089,11 +2674,129 @@ export function init(element: HTMLElement, options: InitOptions = {}): EggCore {
 		})
 	}
 
+	// ── History ────────────────────────────────────────────────────────────────
+	// Records each committed layout per column count. Undo/redo re-apply through setLayout (or
+	// straight into the layout model for another column count). Keyboard nudges of the same item
+	// within `coalesce` ms merge into one entry. Adding, removing or transferring items starts a
+	// fresh history: layouts with a different set of items can't be restored by moving rects.
+
+	if (options.history) {
+		const histOpts = typeof options.history === 'object' ? options.history : {}
+		const limit = histOpts.limit ?? 100
+		const coalesceMs = histOpts.coalesce ?? 500
+
+		type Entry = { columnCount: number; before: ItemRect[]; after: ItemRect[]; source: string; itemId: string | null; time: number }
+		const past: Entry[] = [], future: Entry[] = []
+		const baseline = new Map<number, ItemRect[]>()
+		let lastInteraction: { source: string; itemId: string } | null = null
+		let restoreKey: string | null = null
+
+		const currentCols = () => Math.max(1, core.getGridInfo().columns.length)
+		const layoutKey = (layout: ItemRect[]) => layout.map(r => `${r.id}:${r.column},${r.row},${r.width},${r.height}`).sort().join('|')
+		const idsKey = (layout: ItemRect[]) => layout.map(r => r.id).sort().join('|')
+		baseline.set(currentCols(), core.getLayout())
+
+		// Goes through the same approval as setLayout. `rejected` runs if it is turned down after
+		// returning true (an async beforeCommit, or the model refusing once approved).
+		function restore(entry: Entry, layout: ItemRect[], rejected: () => void): boolean {
+			if (entry.columnCount === currentCols() || !layoutModel) {
+				const byId = new Map(layout.map(r => [r.id, r]))
+				const merged = core.getLayout().map(r => byId.get(r.id) ?? r)
+				restoreKey = layoutKey(merged)
+				if (setItems(merged, true, () => { restoreKey = null; rejected() })) return true
+				restoreKey = null
+				return false
+			}
+			// Another breakpoint's layout: write it to the model, sizes are shared across breakpoints.
+			// Sizes go first so the model's row check sees them, and are rolled back if it refuses.
+			return approve(null, layout, 'layout', 'api', () => {
+				const positions = new Map(layout.map(r => [r.id, { column: r.column, row: r.row }]))
+				const resized: [HTMLElement, ItemRect, { colspan: number; rowspan: number }][] = []
+				for (const r of layout) {
+					const el = findItem(r.id), sz = el && getItemSize(el)
+					if (!el || !sz || (sz.colspan === r.width && sz.rowspan === r.height)) continue
+					resized.push([el, r, sz])
+					layoutModel.updateItemSize(r.id, { width: r.width, height: r.height })
+				}
+				if (layoutModel.saveLayout(entry.columnCount, positions) === false) {
+					for (const [, r, sz] of resized) layoutModel.updateItemSize(r.id, { width: sz.colspan, height: sz.rowspan })
+					refuseLayout(layout)
+					return rejected()
+				}
+				for (const [el, r] of resized) {
+					el.setAttribute('data-egg-colspan', String(r.width))
+					el.setAttribute('data-egg-rowspan', String(r.height))
+				}
+				baseline.set(entry.columnCount, layout)
+			}, rejected)
+		}
+
+		// Moves the newest entry of `from` onto `to` and restores its side of the change; a refusal,
+		// immediate or later, moves it back
+		function step(from: Entry[], to: Entry[], side: 'before' | 'after'): boolean {
+			const entry = from.pop()
+			if (!entry) return false
+			to.push(entry)
+			const back = () => { const i = to.lastIndexOf(entry); if (i >= 0) to.splice(i, 1); from.push(entry) }
+			if (restore(entry, entry[side], back)) return to.includes(entry)
+			back()
+			return false
+		}
+
+		history = {
+			undo: () => step(past, future, 'before'),
+			redo: () => step(future, past, 'after'),
+		}
+
+		// Recorded at start: without View Transitions the commit lands before other end listeners run
+		const onStart = (e: Event) => {
+			const { item, source } = (e as CustomEvent).detail
+			lastInteraction = { source, itemId: getItemId(item) }
+		}
+
+		const onLayoutChange = (e: Event) => {
+			const { items, columnCount } = (e as CustomEvent).detail as { items: ItemRect[]; columnCount: number }
+			const after = items.map(r => ({ ...r }))
+			const before = baseline.get(columnCount)
+			const last = lastInteraction
+			lastInteraction = null
+			if (before && idsKey(before) !== idsKey(after)) {
+				past.length = 0; future.length = 0
+				baseline.clear()
+				baseline.set(columnCount, after)
+				restoreKey = null
+				return
+			}
+			baseline.set(columnCount, after)
+			if (restoreKey && layoutKey(after) === restoreKey) { restoreKey = null; return }
+			if (!before || layoutKey(before) === layoutKey(after)) return
+
+			const now = Date.now(), top = past[past.length - 1]
+			future.length = 0
+			if (last?.source === 'keyboard' && top?.source === 'keyboard' && top.itemId === last.itemId && top.columnCount === columnCount && now - top.time < coalesceMs) {
+				top.after = after; top.time = now
+				return
+			}
+			past.push({ columnCount, before, after, source: last?.source ?? 'api', itemId: last?.itemId ?? null, time: now })
+			if (past.length > limit) past.shift()
+		}
+
+		const onColumnCountChange = (e: Event) => baseline.set((e as CustomEvent).detail.currentCount, core.getLayout())
+
+		const histEvents: Record<string, EventListener> = {
+			'egg-drag-start': onStart, 'egg-resize-start': onStart,
+			'egg-layout-change': onLayoutChange, 'egg-column-count-change': onColumnCountChange,
+		}
+		for (const [name, handler] of Object.entries(histEvents)) element.addEventListener(name, handler)
+		cleanups.push(() => { history = null; for (const [name, handler] of Object.entries(histEvents)) element.removeEventListener(name, handler) })
+	}
+
 	return core
 }
 
 // ── Exports ────────────────────────────────────────────────────────────────────
 
 export { getItemCell, getItemSize, getItemId, layoutToCSS, readItemsFromDOM }
-export { calculatePushLayout, itemsOverlap, pushDown, compactUp }
-export type { GridCell, ItemRect, ResizeHandle, EggCore, InitOptions, ResponsiveLayoutModel }
+export { calculatePushLayout, calculateSmartPushLayout, calculateSwapLayout, calculateReflowLayout, getReadingOrder, itemsOverlap, pushDown, compactUp, compactLeft, applyCompaction, createOccupancyIndex }
+export { pushAlgorithm, smartPushAlgorithm, swapAlgorithm, reflowAlgorithm, noOverlapAlgorithm, ALGORITHMS, isPlacementValid, runLayout, runGroupLayout }
+export type { GridCell, ItemRect, ResizeHandle, CompactionMode, PointerOptions, OccupancyIndex, LayoutRequest, LayoutAlgorithm, EggCore, InitOptions, ResponsiveLayoutModel }
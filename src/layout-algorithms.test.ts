@@ -0,0 +1,350 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePushLayout, calculateSmartPushLayout, calculateSwapLayout, calculateReflowLayout, getReadingOrder, itemsOverlap, pushDown, applyCompaction, runLayout, runGroupLayout, pushAlgorithm, noOverlapAlgorithm, isPlacementValid } from './eg-grid';
+import { calculateLayout } from '../worker/src/algorithm';
+import type { ItemRect, LayoutAlgorithm, LayoutRequest } from './eg-grid';
+
+function rect(id: string, column: number, row: number, width = 1, height = 1, isStatic = false): ItemRect {
+	return isStatic ? { id, column, row, width, height, static: true } : { id, column, row, width, height };
+}
+
+function cellsById(layout: ItemRect[]): Record<string, [number, number]> {
+	return Object.fromEntries(layout.map(i => [i.id, [i.column, i.row]]));
+}
+
+function overlaps(layout: ItemRect[]): string[] {
+	const hits: string[] = [];
+	for (let i = 0; i < layout.length; i++) for (let j = i + 1; j < layout.length; j++) {
+		if (itemsOverlap(layout[i]!, layout[j]!)) hits.push(`${layout[i]!.id}/${layout[j]!.id}`);
+	}
+	return hits;
+}
+
+// Deterministic layout of mixed-size items packed row by row, plus a seeded PRNG for picking moves
+function randomGrid(count: number, columns: number, seed: number) {
+	let state = seed;
+	const next = (max: number) => { state = (state * 1103515245 + 12345) % 2147483648; return 1 + (state % max); };
+	const items: ItemRect[] = [];
+	let column = 1, row = 1;
+	for (let i = 0; i < count; i++) {
+		const width = next(3);
+		if (column + width - 1 > columns) { column = 1; row += 3; }
+		items.push(rect(`i${i}`, column, row, width, next(3), i % 17 === 0));
+		column += width;
+	}
+	return { items, next };
+}
+
+describe('calculatePushLayout', () => {
+	it('pushes a whole column down as a cascade', () => {
+		const items = [rect('a', 1, 1), rect('b', 1, 2), rect('c', 1, 3), rect('x', 2, 1)];
+		expect(cellsById(calculatePushLayout(items, 'x', { column: 1, row: 1 }, false))).toEqual({ a: [1, 2], b: [1, 3], c: [1, 4], x: [1, 1] });
+	});
+
+	it('pushes items past static items instead of into them', () => {
+		const items = [rect('a', 1, 1), rect('s', 1, 2, 1, 1, true), rect('x', 2, 1)];
+		expect(cellsById(calculatePushLayout(items, 'x', { column: 1, row: 1 }, false))).toEqual({ a: [1, 3], s: [1, 2], x: [1, 1] });
+	});
+
+	it('moves the dropped item below a static item it lands on', () => {
+		const items = [rect('s', 1, 1, 1, 1, true), rect('x', 2, 1)];
+		expect(cellsById(calculatePushLayout(items, 'x', { column: 1, row: 1 }, false))).toEqual({ s: [1, 1], x: [1, 2] });
+	});
+
+	it('never moves a static item that is dragged', () => {
+		const items = [rect('s', 1, 1, 1, 1, true), rect('a', 2, 1)];
+		expect(calculatePushLayout(items, 's', { column: 2, row: 1 })).toEqual(items);
+	});
+
+	it('leaves no overlaps on a large grid', () => {
+		const columns = 12;
+		const { items, next } = randomGrid(300, columns, 42);
+		let layout = items;
+		for (let i = 0; i < 25; i++) {
+			const moved = layout[next(layout.length) - 1]!;
+			const cell = { column: next(columns - moved.width + 1), row: next(60) };
+			for (const compaction of ['up', 'left', 'up-left', false] as const) {
+				const result = calculatePushLayout(layout, moved.id, cell, compaction);
+				expect(overlaps(result)).toEqual([]);
+				expect(result.every(r => r.column >= 1 && r.row >= 1 && r.column + r.width - 1 <= columns)).toBe(true);
+			}
+			layout = calculatePushLayout(layout, moved.id, cell);
+		}
+	});
+});
+
+describe('pushDown', () => {
+	it('still accepts the legacy numeric depth argument', () => {
+		const items = [rect('a', 1, 1), rect('b', 1, 2), rect('x', 1, 1)];
+		pushDown(items, items[2]!, 'x', 0);
+		expect(cellsById(items)).toEqual({ a: [1, 2], b: [1, 3], x: [1, 1] });
+	});
+});
+
+describe('calculateSwapLayout', () => {
+	it('swaps with a same-sized item sitting exactly on the target cell', () => {
+		const items = [rect('a', 1, 1), rect('b', 2, 1), rect('c', 1, 2)];
+		expect(cellsById(calculateSwapLayout(items, 'a', { column: 2, row: 1 }, false))).toEqual({ a: [2, 1], b: [1, 1], c: [1, 2] });
+	});
+
+	it('swaps multi-cell items of the same size', () => {
+		const items = [rect('a', 1, 1, 2, 2), rect('b', 3, 1, 2, 2)];
+		expect(cellsById(calculateSwapLayout(items, 'a', { column: 3, row: 1 }, false))).toEqual({ a: [3, 1], b: [1, 1] });
+	});
+
+	it('falls back to push when the target item differs in size', () => {
+		const items = [rect('a', 1, 1), rect('b', 2, 1, 2, 1)];
+		const swapped = calculateSwapLayout(items, 'a', { column: 2, row: 1 }, false);
+		expect(swapped).toEqual(calculatePushLayout(items, 'a', { column: 2, row: 1 }, false));
+		expect(cellsById(swapped)).toEqual({ a: [2, 1], b: [2, 2] });
+	});
+
+	it('falls back to push when the target is only partly covered or covers several items', () => {
+		const items = [rect('a', 1, 1, 2, 1), rect('b', 3, 1), rect('c', 4, 1)];
+		const cell = { column: 3, row: 1 };
+		expect(calculateSwapLayout(items, 'a', cell, false)).toEqual(calculatePushLayout(items, 'a', cell, false));
+	});
+
+	it('never swaps with a static item', () => {
+		const items = [rect('a', 1, 1), rect('s', 2, 1, 1, 1, true)];
+		const layout = calculateSwapLayout(items, 'a', { column: 2, row: 1 }, false);
+		expect(cellsById(layout)).toEqual({ a: [2, 2], s: [2, 1] });
+	});
+
+	it('leaves the input untouched', () => {
+		const items = [rect('a', 1, 1), rect('b', 2, 1)];
+		const before = JSON.stringify(items);
+		calculateSwapLayout(items, 'a', { column: 2, row: 1 });
+		expect(JSON.stringify(items)).toBe(before);
+	});
+});
+
+describe('calculateReflowLayout', () => {
+	const row = () => [rect('a', 1, 1), rect('b', 2, 1), rect('c', 3, 1), rect('d', 1, 2)];
+
+	it('inserts after the items at the target when moving forward', () => {
+		const layout = calculateReflowLayout(row(), 'a', { column: 3, row: 1 }, 3);
+		expect(getReadingOrder(layout)).toEqual(['b', 'c', 'a', 'd']);
+		expect(cellsById(layout)).toEqual({ a: [3, 1], b: [1, 1], c: [2, 1], d: [1, 2] });
+	});
+
+	it('inserts before the item at the target when moving backward', () => {
+		const layout = calculateReflowLayout(row(), 'd', { column: 2, row: 1 }, 3);
+		expect(getReadingOrder(layout)).toEqual(['a', 'd', 'b', 'c']);
+		expect(cellsById(layout)).toEqual({ a: [1, 1], d: [2, 1], b: [3, 1], c: [1, 2] });
+	});
+
+	it('packs around static items without moving them', () => {
+		const items = [rect('a', 1, 1), rect('s', 2, 1, 1, 1, true), rect('b', 3, 1), rect('c', 1, 2)];
+		const layout = calculateReflowLayout(items, 'c', { column: 1, row: 1 }, 3);
+		expect(cellsById(layout)).toEqual({ s: [2, 1], c: [1, 1], a: [3, 1], b: [1, 2] });
+	});
+
+	it('clamps items wider than the grid to its column count', () => {
+		const items = [rect('a', 1, 1), rect('wide', 1, 2, 4, 1)];
+		const wide = calculateReflowLayout(items, 'a', { column: 1, row: 3 }, 2).find(i => i.id === 'wide')!;
+		expect(wide).toMatchObject({ column: 1, row: 1, width: 2 });
+	});
+});
+
+describe('getReadingOrder', () => {
+	it('sorts top-to-bottom, then left-to-right', () => {
+		expect(getReadingOrder([rect('c', 1, 2), rect('b', 3, 1), rect('a', 1, 1)])).toEqual(['a', 'b', 'c']);
+	});
+});
+
+describe('calculateSmartPushLayout', () => {
+	it('shifts a collider sideways into a free spot instead of pushing it down', () => {
+		const items = [rect('a', 1, 1), rect('b', 2, 1)];
+		expect(cellsById(calculateSmartPushLayout(items, 'a', { column: 2, row: 1 }, 4, false))).toEqual({ a: [2, 1], b: [1, 1] });
+	});
+
+	it('shifts a collider up when that is the nearest free spot', () => {
+		const items = [rect('a', 1, 2), rect('b', 2, 2), rect('c', 1, 3), rect('d', 3, 2)];
+		const layout = calculateSmartPushLayout(items, 'c', { column: 2, row: 2 }, 3, false);
+		expect(cellsById(layout)).toMatchObject({ c: [2, 2], b: [2, 1] });
+	});
+
+	it('never slides a collider past other items', () => {
+		const items = [rect('a', 1, 1), rect('b', 2, 1), rect('c', 3, 1), rect('x', 1, 2)];
+		const layout = calculateSmartPushLayout(items, 'x', { column: 1, row: 1 }, 4, false);
+		expect(cellsById(layout)).toEqual({ a: [1, 2], b: [2, 1], c: [3, 1], x: [1, 1] });
+	});
+
+	it('pushes down when that moves the collider less than sliding', () => {
+		const items = [rect('a', 1, 1, 2, 1), rect('x', 4, 3)];
+		const layout = calculateSmartPushLayout(items, 'x', { column: 2, row: 1 }, 4, false);
+		expect(cellsById(layout)).toEqual({ a: [1, 2], x: [2, 1] });
+	});
+
+	it('slides a collider out from under a tall dragged item rather than pushing it far down', () => {
+		const items = [rect('a', 2, 1), rect('x', 1, 5, 3, 3)];
+		const layout = calculateSmartPushLayout(items, 'x', { column: 1, row: 1 }, 4, false);
+		expect(cellsById(layout)).toEqual({ a: [4, 1], x: [1, 1] });
+	});
+
+	it('falls back to pushing down when no shift fits', () => {
+		const items = [rect('a', 1, 1), rect('c', 2, 1), rect('b', 1, 2, 2, 1)];
+		const layout = calculateSmartPushLayout(items, 'a', { column: 1, row: 2 }, 2, false);
+		expect(cellsById(layout)).toEqual({ a: [1, 2], c: [2, 1], b: [1, 3] });
+	});
+
+	it('never moves static items', () => {
+		const items = [rect('a', 1, 1), rect('s', 2, 1, 1, 1, true)];
+		const layout = calculateSmartPushLayout(items, 'a', { column: 2, row: 1 }, 2, false);
+		expect(layout.find(i => i.id === 's')).toMatchObject({ column: 2, row: 1 });
+	});
+});
+
+describe('compaction', () => {
+	const scattered = () => [rect('x', 2, 1), rect('y', 3, 3), rect('s', 1, 3, 1, 1, true)];
+
+	it('floats items up', () => {
+		const items = scattered();
+		applyCompaction(items, '', 'up');
+		expect(cellsById(items)).toEqual({ x: [2, 1], y: [3, 1], s: [1, 3] });
+	});
+
+	it('floats items left, stopping at static items', () => {
+		const items = scattered();
+		applyCompaction(items, '', 'left');
+		expect(cellsById(items)).toEqual({ x: [1, 1], y: [2, 3], s: [1, 3] });
+	});
+
+	it('alternates up and left until stable', () => {
+		const items = scattered();
+		applyCompaction(items, '', 'up-left');
+		expect(cellsById(items)).toEqual({ x: [1, 1], y: [2, 1], s: [1, 3] });
+	});
+
+	it('leaves the excluded item in place', () => {
+		const items = scattered();
+		applyCompaction(items, 'y', 'up-left');
+		expect(cellsById(items)).toMatchObject({ y: [3, 3] });
+	});
+
+	it('treats compaction: true as \'up\'', () => {
+		const items = [rect('a', 1, 1), rect('b', 2, 3)];
+		const cell = { column: 1, row: 2 };
+		expect(calculatePushLayout(items, 'a', cell, true)).toEqual(calculatePushLayout(items, 'a', cell, 'up'));
+		expect(cellsById(calculatePushLayout(items, 'a', cell, true))).toEqual({ a: [1, 2], b: [2, 1] });
+	});
+});
+
+describe('worker calculateLayout', () => {
+	it('matches the client push layout for every compaction mode', () => {
+		const columns = 12;
+		const { items, next } = randomGrid(120, columns, 7);
+		for (let i = 0; i < 20; i++) {
+			const moved = items[next(items.length) - 1]!;
+			const cell = { column: next(columns - moved.width + 1), row: next(40) };
+			for (const compaction of ['up', 'left', 'up-left', false, true] as const) {
+				expect(calculateLayout(items, moved.id, cell, compaction)).toEqual(calculatePushLayout(items, moved.id, cell, compaction));
+			}
+		}
+	});
+});
+
+describe('no-overlap', () => {
+	const request = (cell: { column: number; row: number }, maxRows = Infinity): LayoutRequest => ({
+		items: [rect('a', 1, 1), rect('b', 2, 1, 2, 1)], movedId: 'a', cell, columns: 4, maxRows, compaction: false,
+	});
+	const place = (req: LayoutRequest) => {
+		const layout = runLayout(noOverlapAlgorithm, req);
+		return { layout, valid: noOverlapAlgorithm.validate!(layout, req) };
+	};
+
+	it('moves only the dragged item into free space', () => {
+		const { layout, valid } = place(request({ column: 4, row: 2 }));
+		expect(valid).toBe(true);
+		expect(cellsById(layout)).toEqual({ a: [4, 2], b: [2, 1] });
+	});
+
+	it('rejects drops onto other items without moving them', () => {
+		const { layout, valid } = place(request({ column: 3, row: 1 }));
+		expect(valid).toBe(false);
+		expect(cellsById(layout)).toMatchObject({ b: [2, 1] });
+	});
+
+	it('rejects drops outside the columns or past maxRows', () => {
+		expect(place(request({ column: 5, row: 1 })).valid).toBe(false);
+		expect(place(request({ column: 1, row: 0 })).valid).toBe(false);
+		expect(place(request({ column: 1, row: 3 }, 2)).valid).toBe(false);
+		expect(place(request({ column: 1, row: 2 }, 2)).valid).toBe(true);
+	});
+
+	it('never moves static items', () => {
+		const items = [rect('s', 1, 1, 1, 1, true)];
+		expect(cellsById(noOverlapAlgorithm.move({ items, movedId: 's', cell: { column: 2, row: 2 }, columns: 4, maxRows: Infinity, compaction: false }))).toEqual({ s: [1, 1] });
+	});
+
+	it('treats a missing moved item as valid', () => {
+		expect(isPlacementValid([rect('a', 1, 1)], 'nope', 4)).toBe(true);
+	});
+});
+
+describe('runLayout', () => {
+	const request = (compaction: LayoutRequest['compaction'] = 'up'): LayoutRequest => ({
+		items: [rect('a', 1, 1), rect('b', 2, 3)], movedId: 'a', cell: { column: 3, row: 2 }, columns: 4, maxRows: Infinity, compaction,
+	});
+	// Places the moved item and records which hooks ran
+	const recording = (hooks: Partial<LayoutAlgorithm> = {}) => {
+		const calls: string[] = [];
+		const algorithm: LayoutAlgorithm = {
+			move: req => { calls.push('move'); return req.items.map(i => i.id === req.movedId ? { ...i, ...req.cell } : { ...i }); },
+			...hooks,
+		};
+		return { algorithm, calls };
+	};
+
+	it('runs a custom move, then its compact', () => {
+		const { algorithm, calls } = recording({ compact: (items) => { calls.push('compact'); return items.map(i => ({ ...i, row: 1 })); } });
+		expect(cellsById(runLayout(algorithm, request()))).toEqual({ a: [3, 1], b: [2, 1] });
+		expect(calls).toEqual(['move', 'compact']);
+	});
+
+	it('skips compact when compaction is off or the algorithm has none', () => {
+		const off = recording({ compact: (items) => { off.calls.push('compact'); return items; } });
+		runLayout(off.algorithm, request(false));
+		expect(off.calls).toEqual(['move']);
+		const none = recording();
+		expect(cellsById(runLayout(none.algorithm, request()))).toEqual({ a: [3, 2], b: [2, 3] });
+	});
+
+	it('resizes through resize() with the new size applied, falling back to move()', () => {
+		let seen: (LayoutRequest & { colspan: number; rowspan: number }) | null = null;
+		const { algorithm, calls } = recording({ resize: (req) => { seen = req; return req.items; } });
+		const layout = runLayout(algorithm, request(false), { colspan: 2, rowspan: 3 });
+		expect(calls).toEqual([]);
+		expect(seen).toMatchObject({ colspan: 2, rowspan: 3 });
+		expect(layout.find(i => i.id === 'a')).toMatchObject({ column: 3, row: 2, width: 2, height: 3 });
+		const fallback = recording();
+		expect(runLayout(fallback.algorithm, request(false), { colspan: 2, rowspan: 1 }).find(i => i.id === 'a')).toMatchObject({ width: 2 });
+		expect(fallback.calls).toEqual(['move']);
+	});
+});
+
+describe('runGroupLayout', () => {
+	const group = (items: ItemRect[], offsets: Record<string, [number, number]>, column: number, row: number, compaction: LayoutRequest['compaction'] = false) => {
+		const req: LayoutRequest = { items, movedId: Object.keys(offsets)[0]!, cell: { column, row }, columns: 4, maxRows: Infinity, compaction };
+		return runGroupLayout(pushAlgorithm, req, new Map(Object.entries(offsets).map(([id, [c, r]]) => [id, { column: c, row: r }])));
+	};
+
+	it('only collides with the members, not the rest of their bounding box', () => {
+		const items = [rect('a', 1, 1), rect('b', 2, 1), rect('c', 3, 1), rect('d', 1, 2)];
+		expect(cellsById(group(items, { c: [2, 0], d: [0, 1] }, 1, 1, 'up'))).toEqual({ a: [1, 1], b: [2, 1], c: [3, 1], d: [1, 2] });
+		expect(cellsById(group(items, { c: [2, 0], d: [0, 1] }, 2, 1, 'up'))).toEqual({ a: [1, 1], b: [2, 1], c: [4, 1], d: [2, 2] });
+	});
+
+	it('pushes items under a member and leaves gaps in the box alone', () => {
+		const items = [rect('a', 1, 1), rect('c', 3, 1), rect('b', 2, 2), rect('d', 1, 2)];
+		const layout = group(items, { a: [0, 0], c: [2, 0] }, 1, 2);
+		expect(cellsById(layout)).toEqual({ a: [1, 2], c: [3, 2], b: [2, 2], d: [1, 3] });
+		expect(overlaps(layout)).toEqual([]);
+	});
+
+	it('moves the whole group below a static under any member, and unpins the members', () => {
+		const layout = group([rect('a', 1, 1), rect('c', 3, 1), rect('s', 3, 2, 1, 1, true)], { a: [0, 0], c: [2, 0] }, 1, 2);
+		expect(cellsById(layout)).toEqual({ s: [3, 2], a: [1, 3], c: [3, 3] });
+		expect(layout.find(i => i.id === 'a')).toEqual(rect('a', 1, 3));
+	});
+});
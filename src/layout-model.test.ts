@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLayoutModel } from './layout-model';
+import type { ItemDefinition, ItemPosition } from './layout-model';
+
+function model(defs: [string, number, number, number, number][], options: { maxColumns?: number; maxRows?: number } = {}) {
+	const items: ItemDefinition[] = defs.map(([id, , , width, height]) => ({ id, width, height }));
+	const canonicalPositions = new Map<string, ItemPosition>(defs.map(([id, column, row]) => [id, { column, row }]));
+	return createLayoutModel({ maxColumns: options.maxColumns ?? 4, items, canonicalPositions, maxRows: options.maxRows });
+}
+
+function cells(positions: Map<string, ItemPosition>): Record<string, [number, number]> {
+	return Object.fromEntries(Array.from(positions, ([id, p]) => [id, [p.column, p.row]]));
+}
+
+describe('maxRows', () => {
+	it('refuses saves that end past the limit and keeps the previous layout', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const m = model([['a', 1, 1, 1, 2], ['b', 2, 1, 1, 1]], { maxRows: 3 });
+		const listener = vi.fn();
+		m.subscribe(listener);
+		expect(m.saveLayout(4, new Map([['a', { column: 1, row: 3 }], ['b', { column: 2, row: 1 }]]))).toBe(false);
+		expect(listener).not.toHaveBeenCalled();
+		expect(cells(m.getLayoutForColumns(4))).toEqual({ a: [1, 1], b: [2, 1] });
+		expect(m.saveLayout(4, new Map([['a', { column: 1, row: 2 }], ['b', { column: 2, row: 3 }]]))).toBe(true);
+		expect(listener).toHaveBeenCalledTimes(1);
+		warn.mockRestore();
+	});
+
+	it('checks the current item heights', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const m = model([['a', 1, 1, 1, 1]], { maxRows: 2 });
+		m.updateItemSize('a', { width: 1, height: 3 });
+		expect(m.saveLayout(4, new Map([['a', { column: 1, row: 1 }]]))).toBe(false);
+		warn.mockRestore();
+	});
+
+	it('accepts any row without a limit', () => {
+		const m = model([['a', 1, 1, 1, 1]]);
+		expect(m.saveLayout(4, new Map([['a', { column: 1, row: 500 }]]))).toBe(true);
+		expect(m.maxRows).toBeUndefined();
+	});
+
+	it('packs derived layouts within the limit', () => {
+		const m = model([['a', 1, 1, 2, 2], ['b', 3, 1, 2, 2], ['c', 1, 3, 1, 1]], { maxRows: 4 });
+		const derived = m.getLayoutForColumns(3);
+		for (const [id, pos] of derived) expect(pos.row + m.items.get(id)!.height - 1).toBeLessThanOrEqual(4);
+		expect(cells(derived)).toEqual({ a: [1, 1], b: [1, 3], c: [3, 1] });
+	});
+
+	it('parks items that cannot fit just past the limit', () => {
+		const m = model([['a', 1, 1, 2, 2], ['b', 3, 1, 2, 2]], { maxRows: 2 });
+		expect(cells(m.getLayoutForColumns(2))).toEqual({ a: [1, 1], b: [1, 3] });
+	});
+});
+
+describe('addItem / removeItem', () => {
+	it('slots a new item into the first free canonical cell', () => {
+		const m = model([['a', 1, 1, 2, 1], ['b', 4, 1, 1, 1]]);
+		m.addItem({ id: 'n', width: 1, height: 1 });
+		expect(cells(m.getLayoutForColumns(4))).toMatchObject({ n: [3, 1] });
+		m.addItem({ id: 'w', width: 2, height: 1 });
+		expect(cells(m.getLayoutForColumns(4))).toMatchObject({ w: [1, 2] });
+	});
+
+	it('uses a given canonical position and slots the item into every override', () => {
+		const m = model([['a', 1, 1, 1, 1], ['b', 2, 1, 1, 1]]);
+		m.saveLayout(2, new Map([['a', { column: 1, row: 1 }], ['b', { column: 2, row: 1 }]]));
+		m.addItem({ id: 'n', width: 3, height: 1 }, { column: 2, row: 3 });
+		expect(cells(m.getLayoutForColumns(4))).toMatchObject({ n: [2, 3] });
+		// Clamped to the override's two columns
+		expect(cells(m.getLayoutForColumns(2))).toEqual({ a: [1, 1], b: [2, 1], n: [1, 2] });
+	});
+
+	it('skips cells taken by taller items', () => {
+		const m = model([['a', 1, 1, 1, 2], ['b', 2, 1, 3, 1]]);
+		m.addItem({ id: 'n', width: 2, height: 1 });
+		expect(cells(m.getLayoutForColumns(4))).toMatchObject({ n: [2, 2] });
+	});
+
+	it('removes an item from the canonical layout and overrides and notifies once', () => {
+		const m = model([['a', 1, 1, 1, 1], ['b', 2, 1, 1, 1]]);
+		m.saveLayout(2, new Map([['a', { column: 1, row: 1 }], ['b', { column: 2, row: 1 }]]));
+		const listener = vi.fn();
+		m.subscribe(listener);
+		m.removeItem('a');
+		m.removeItem('missing');
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(m.items.has('a')).toBe(false);
+		expect(cells(m.getLayoutForColumns(4))).toEqual({ b: [2, 1] });
+		expect(cells(m.getLayoutForColumns(2))).toEqual({ b: [2, 1] });
+	});
+});
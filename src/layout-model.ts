@@ -37,20 +37,25 @@ export interface CreateLayoutModelOptions {
 	items: ItemDefinition[]
 	canonicalPositions: Map<string, ItemPosition>
 	overrides?: Map<number, Map<string, ItemPosition>>
+	/** Hard row limit — derived layouts pack within it and saves past it are refused */
+	maxRows?: number
 }
 
 export interface ResponsiveLayoutModel {
 	readonly maxColumns: number
 	readonly minColumns: number
+	readonly maxRows: number | undefined
 	readonly items: ReadonlyMap<string, ItemDefinition>
 	readonly currentColumnCount: number
 	getLayoutForColumns(columnCount: number): Map<string, ItemPosition>
 	getCurrentLayout(): Map<string, ItemPosition>
 	hasOverride(columnCount: number): boolean
 	getOverrideColumnCounts(): number[]
-	saveLayout(columnCount: number, positions: Map<string, ItemPosition>): void
+	saveLayout(columnCount: number, positions: Map<string, ItemPosition>): boolean
 	clearOverride(columnCount: number): void
 	updateItemSize(itemId: string, size: { width: number; height: number }): void
+	addItem(item: ItemDefinition, position?: ItemPosition): void
+	removeItem(itemId: string): void
 	setCurrentColumnCount(columnCount: number): void
 	generateAllBreakpointCSS(options?: BreakpointCSSOptions): string
 	subscribe(callback: () => void): () => void
@@ -64,7 +69,8 @@ const MAX_ROWS = 100; // Safety limit for layout derivation
 export function createLayoutModel(
 	options: CreateLayoutModelOptions,
 ): ResponsiveLayoutModel {
-	const { maxColumns, minColumns = 1, items: itemDefs } = options;
+	const { maxColumns, minColumns = 1, maxRows, items: itemDefs } = options;
+	const rowLimit = Math.min(maxRows ?? MAX_ROWS, MAX_ROWS);
 
 	// Store item definitions
 	const items = new Map<string, ItemDefinition>();
@@ -123,7 +129,7 @@ export function createLayoutModel(
 
 		// 2D occupancy grid: occupied[row][col] = itemId or null
 		const occupied: (string | null)[][] = [];
-		for (let r = 0; r < MAX_ROWS; r++) {
+		for (let r = 0; r < rowLimit; r++) {
 			occupied.push(new Array(cols).fill(null));
 		}
 
@@ -134,7 +140,7 @@ export function createLayoutModel(
 
 			// Find first available position (first-fit)
 			let placed = false;
-			for (let row = 0; row < MAX_ROWS && !placed; row++) {
+			for (let row = 0; row <= rowLimit - h && !placed; row++) {
 				for (let col = 0; col <= cols - w && !placed; col++) {
 					// Check if space is available
 					let canFit = true;
@@ -162,14 +168,48 @@ export function createLayoutModel(
 			}
 
 			if (!placed) {
-				// Fallback: place at bottom (shouldn't happen with reasonable MAX_ROWS)
-				result.set(itemDef.id, { column: 1, row: MAX_ROWS });
+				// Fallback: place past the limit (only happens when the items can't fit within maxRows)
+				result.set(itemDef.id, { column: 1, row: rowLimit + 1 });
 			}
 		}
 
 		return result;
 	}
 
+	/**
+	 * First free slot for a width×height item among existing positions (first-fit).
+	 * Used to slot new items into layouts that haven't been saved with them.
+	 */
+	function findFreeSlot(
+		positions: Map<string, ItemPosition>,
+		cols: number,
+		width: number,
+		height: number,
+	): ItemPosition {
+		const w = Math.min(width, cols);
+		const taken = new Set<string>();
+		for (const [id, pos] of positions) {
+			const def = items.get(id);
+			if (!def) continue;
+			for (let dy = 0; dy < def.height; dy++) {
+				for (let dx = 0; dx < Math.min(def.width, cols); dx++) {
+					taken.add(`${pos.column + dx},${pos.row + dy}`);
+				}
+			}
+		}
+		for (let row = 1; ; row++) {
+			for (let col = 1; col <= cols - w + 1; col++) {
+				let fits = true;
+				for (let dy = 0; dy < height && fits; dy++) {
+					for (let dx = 0; dx < w && fits; dx++) {
+						if (taken.has(`${col + dx},${row + dy}`)) fits = false;
+					}
+				}
+				if (fits) return { column: col, row };
+			}
+		}
+	}
+
 	/**
 	 * Calculate breakpoint width for a given column count.
 	 * n columns needs: n * cellSize + (n - 1) * gap pixels
@@ -185,6 +225,9 @@ export function createLayoutModel(
 		get minColumns() {
 			return minColumns;
 		},
+		get maxRows() {
+			return maxRows;
+		},
 		get items() {
 			return items;
 		},
@@ -222,9 +265,19 @@ export function createLayoutModel(
 			return Array.from(overrides.keys()).sort((a, b) => b - a);
 		},
 
-		saveLayout(columnCount: number, positions: Map<string, ItemPosition>): void {
+		saveLayout(columnCount: number, positions: Map<string, ItemPosition>): boolean {
 			const cols = Math.max(minColumns, Math.min(maxColumns, columnCount));
 
+			if (maxRows !== undefined) {
+				for (const [id, pos] of positions) {
+					const height = items.get(id)?.height ?? 1;
+					if (pos.row + height - 1 > maxRows) {
+						console.warn(`[layout-model] saveLayout: item "${id}" ends past maxRows (${maxRows}), layout refused`);
+						return false;
+					}
+				}
+			}
+
 			if (cols === maxColumns) {
 				// Update canonical layout
 				canonicalPositions = new Map(positions);
@@ -234,6 +287,7 @@ export function createLayoutModel(
 			}
 
 			notifySubscribers();
+			return true;
 		},
 
 		clearOverride(columnCount: number): void {
@@ -263,6 +317,25 @@ export function createLayoutModel(
 			notifySubscribers();
 		},
 
+		addItem(item: ItemDefinition, position?: ItemPosition): void {
+			items.set(item.id, { id: item.id, width: item.width, height: item.height });
+
+			// Canonical gets the given position (or the first free slot); overrides get their first free slot
+			canonicalPositions.set(item.id, position ?? findFreeSlot(canonicalPositions, maxColumns, item.width, item.height));
+			for (const [cols, override] of overrides) {
+				if (!override.has(item.id)) override.set(item.id, findFreeSlot(override, cols, item.width, item.height));
+			}
+
+			notifySubscribers();
+		},
+
+		removeItem(itemId: string): void {
+			if (!items.delete(itemId)) return;
+			canonicalPositions.delete(itemId);
+			for (const override of overrides.values()) override.delete(itemId);
+			notifySubscribers();
+		},
+
 		setCurrentColumnCount(columnCount: number): void {
 			const newCount = Math.max(minColumns, Math.min(maxColumns, columnCount));
 			if (newCount !== currentColumnCount) {
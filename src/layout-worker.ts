@@ -0,0 +1,22 @@
+// Layout worker — runs built-in algorithms off the main thread (see InitOptions.worker)
+
+import { runLayout, runGroupLayout, pushAlgorithm, ALGORITHMS } from './eg-grid'
+import type { GridCell, LayoutRequest } from './eg-grid'
+
+type PreviewMessage = { version: number; algorithm: string; req: LayoutRequest; size?: { colspan: number; rowspan: number }; offsets?: Map<string, GridCell> }
+
+// Requests queued behind a slow calculation are superseded — only the newest one is computed
+let latest: PreviewMessage | null = null
+
+self.onmessage = (e: MessageEvent<PreviewMessage>) => {
+	const queued = latest !== null
+	latest = e.data
+	if (queued) return
+	setTimeout(() => {
+		const msg = latest!
+		latest = null
+		const algorithm = ALGORITHMS[msg.algorithm] ?? pushAlgorithm
+		const layout = msg.offsets ? runGroupLayout(algorithm, msg.req, msg.offsets) : runLayout(algorithm, msg.req, msg.size)
+		self.postMessage({ version: msg.version, layout })
+	})
+}
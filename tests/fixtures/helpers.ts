@@ -0,0 +1,52 @@
+import type { Page } from '@playwright/test';
+
+// features.html through the Vite dev server that playwright.config.ts starts (base '/eg-grid/')
+export const FIXTURE_URL = 'http://localhost:8888/eg-grid/tests/fixtures/features.html';
+
+export interface GridPosition {
+	column: number;
+	row: number;
+}
+
+// One entry of window.egg.events, as recorded by the fixture
+export interface RecordedEvent {
+	type: string;
+	grid: string;
+	item: string | null;
+	items: number;
+	removed: boolean;
+}
+
+export async function openFixture(page: Page) {
+	await page.goto(FIXTURE_URL);
+	await page.waitForSelector('body[data-ready]');
+}
+
+export async function getGridPosition(page: Page, selector: string): Promise<GridPosition> {
+	return page.evaluate((sel) => {
+		const el = document.querySelector(sel) as HTMLElement;
+		if (!el) throw new Error(`Element not found: ${sel}`);
+		const style = getComputedStyle(el);
+		return {
+			column: parseInt(style.gridColumnStart, 10) || 1,
+			row: parseInt(style.gridRowStart, 10) || 1,
+		};
+	}, selector);
+}
+
+export async function getEvents(page: Page, type: string): Promise<RecordedEvent[]> {
+	return page.evaluate((t) => (window as any).egg.events.filter((e: RecordedEvent) => e.type === t), type);
+}
+
+// Pairs of items in a grid whose committed rects overlap
+export async function getOverlaps(page: Page, gridId = 'grid-a'): Promise<string[]> {
+	return page.evaluate((id) => {
+		const layout = (window as any).egg.cores[id].getLayout() as { id: string; column: number; row: number; width: number; height: number }[];
+		const hits: string[] = [];
+		for (let i = 0; i < layout.length; i++) for (let j = i + 1; j < layout.length; j++) {
+			const a = layout[i]!, b = layout[j]!;
+			if (a.column < b.column + b.width && b.column < a.column + a.width && a.row < b.row + b.height && b.row < a.row + a.height) hits.push(`${a.id}/${b.id}`);
+		}
+		return hits;
+	}, gridId);
+}
@@ -0,0 +1,62 @@
+import { test, expect, Page } from '@playwright/test';
+import { openFixture, getGridPosition, getEvents, getOverlaps } from './fixtures/helpers';
+
+// Select #c, shift-click #d, then drag #d one column to the right
+async function dragGroup(page: Page) {
+	await page.locator('#c').click();
+	await page.locator('#d').click({ modifiers: ['Shift'] });
+	const d = (await page.locator('#d').boundingBox())!;
+	await page.mouse.move(d.x + d.width / 2, d.y + d.height / 2);
+	await page.mouse.down();
+	await page.mouse.move(d.x + d.width / 2 + 108, d.y + d.height / 2, { steps: 10 });
+	await page.mouse.up();
+	await page.waitForTimeout(300);
+}
+
+test.describe('Group drag', () => {
+	test.beforeEach(async ({ page }) => {
+		await openFixture(page);
+		await page.evaluate(() => (window as any).egg.setup({ algorithm: 'push' }));
+	});
+
+	test('shift-click selects several items and they move together', async ({ page }) => {
+		await dragGroup(page);
+
+		expect(await page.locator('[data-egg-selected]').count()).toBe(2);
+		expect(await getGridPosition(page, '#d')).toEqual({ column: 2, row: 2 });
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 4, row: 1 });
+		const [start] = await getEvents(page, 'egg-drag-start');
+		expect(start).toMatchObject({ item: 'd', items: 2 });
+		expect(await getEvents(page, 'egg-drag-end')).toEqual([expect.objectContaining({ item: 'd', items: 2 })]);
+	});
+
+	test('only the members collide, not items inside their bounding box', async ({ page }) => {
+		await page.locator('#c').click();
+		await page.locator('#d').click({ modifiers: ['Shift'] });
+		const d = (await page.locator('#d').boundingBox())!;
+		const x = d.x + d.width / 2, y = d.y + d.height / 2;
+		// Out one column and back, dropping the group where it started
+		await page.mouse.move(x, y);
+		await page.mouse.down();
+		await page.mouse.move(x + 108, y, { steps: 10 });
+		await page.mouse.move(x, y, { steps: 10 });
+		await page.mouse.up();
+		await page.waitForTimeout(300);
+
+		expect(await getGridPosition(page, '#a')).toEqual({ column: 1, row: 1 });
+		expect(await getGridPosition(page, '#b')).toEqual({ column: 2, row: 1 });
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 3, row: 1 });
+		expect(await getGridPosition(page, '#d')).toEqual({ column: 1, row: 2 });
+		expect(await getOverlaps(page)).toEqual([]);
+	});
+
+	test('vetoing drag-start leaves the whole group in place', async ({ page }) => {
+		await page.evaluate(() => document.getElementById('grid-a')!.addEventListener('egg-drag-start', e => e.preventDefault()));
+		await dragGroup(page);
+
+		expect(await getGridPosition(page, '#d')).toEqual({ column: 1, row: 2 });
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 3, row: 1 });
+		expect(await getEvents(page, 'egg-drag-cancel')).toHaveLength(1);
+		expect(await getEvents(page, 'egg-drag-end')).toHaveLength(0);
+	});
+});
@@ -0,0 +1,50 @@
+import { test, expect, Page } from '@playwright/test';
+import { openFixture, getGridPosition, getEvents, type GridPosition } from './fixtures/helpers';
+
+// Press at a point and drag it in steps to the centre of a grid cell
+async function dragFrom(page: Page, x: number, y: number, to: GridPosition) {
+	const box = (await page.locator('#grid-a').boundingBox())!;
+	await page.mouse.move(x, y);
+	await page.mouse.down();
+	await page.mouse.move(box.x + (to.column - 1) * 108 + 50, box.y + (to.row - 1) * 108 + 50, { steps: 10 });
+	await page.mouse.up();
+	await page.waitForTimeout(300);
+}
+
+test.describe('Drag handles and ignored children', () => {
+	test.beforeEach(async ({ page }) => {
+		await openFixture(page);
+		await page.evaluate(() => (window as any).egg.setup({ algorithm: 'push' }));
+	});
+
+	test('dragging by the handle moves the item', async ({ page }) => {
+		const handle = (await page.locator('#a [data-egg-handle]').boundingBox())!;
+		await dragFrom(page, handle.x + handle.width / 2, handle.y + handle.height / 2, { column: 4, row: 1 });
+
+		expect(await getGridPosition(page, '#a')).toEqual({ column: 4, row: 1 });
+		expect(await getEvents(page, 'egg-drag-end')).toHaveLength(1);
+	});
+
+	test('dragging the body of an item with a handle does nothing', async ({ page }) => {
+		const item = (await page.locator('#a').boundingBox())!;
+		await dragFrom(page, item.x + item.width / 2, item.y + item.height - 10, { column: 4, row: 1 });
+
+		expect(await getGridPosition(page, '#a')).toEqual({ column: 1, row: 1 });
+		expect(await getEvents(page, 'egg-drag-start')).toHaveLength(0);
+	});
+
+	test('dragging from a button inside an item does nothing', async ({ page }) => {
+		const button = (await page.locator('#b button').boundingBox())!;
+		await dragFrom(page, button.x + button.width / 2, button.y + button.height / 2, { column: 4, row: 1 });
+
+		expect(await getGridPosition(page, '#b')).toEqual({ column: 2, row: 1 });
+		expect(await getEvents(page, 'egg-drag-start')).toHaveLength(0);
+	});
+
+	test('dragging the rest of an item with a button still works', async ({ page }) => {
+		const item = (await page.locator('#b').boundingBox())!;
+		await dragFrom(page, item.x + item.width / 2, item.y + item.height - 10, { column: 4, row: 1 });
+
+		expect(await getGridPosition(page, '#b')).toEqual({ column: 4, row: 1 });
+	});
+});
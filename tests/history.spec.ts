@@ -0,0 +1,54 @@
+import { test, expect, Page } from '@playwright/test';
+import { openFixture, getGridPosition, getOverlaps } from './fixtures/helpers';
+
+// Adds a new 1×1 item #n at column 1, row 1, pushing #a down
+async function addItem(page: Page): Promise<boolean> {
+	return page.evaluate(() => {
+		const el = document.createElement('div');
+		el.className = 'item'; el.id = 'n';
+		return (window as any).egg.cores['grid-a'].addItem(el, { cell: { column: 1, row: 1 } });
+	});
+}
+
+test.describe('History', () => {
+	test.beforeEach(async ({ page }) => {
+		await openFixture(page);
+		await page.evaluate(() => (window as any).egg.setup({ algorithm: 'push', history: true }));
+	});
+
+	test('undo and redo step through moves', async ({ page }) => {
+		expect(await page.evaluate(() => (window as any).egg.cores['grid-a'].moveItem('c', { column: 4, row: 1 }))).toBe(true);
+		await page.waitForTimeout(300);
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 4, row: 1 });
+
+		expect(await page.evaluate(() => (window as any).egg.cores['grid-a'].undo())).toBe(true);
+		await page.waitForTimeout(300);
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 3, row: 1 });
+
+		expect(await page.evaluate(() => (window as any).egg.cores['grid-a'].redo())).toBe(true);
+		await page.waitForTimeout(300);
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 4, row: 1 });
+	});
+
+	test('adding an item starts a fresh history instead of undoing into overlaps', async ({ page }) => {
+		await page.evaluate(() => (window as any).egg.cores['grid-a'].moveItem('c', { column: 4, row: 1 }));
+		await page.waitForTimeout(300);
+		expect(await addItem(page)).toBe(true);
+		await page.waitForTimeout(300);
+		expect(await getGridPosition(page, '#n')).toEqual({ column: 1, row: 1 });
+
+		expect(await page.evaluate(() => (window as any).egg.cores['grid-a'].undo())).toBe(false);
+		await page.waitForTimeout(300);
+		expect(await getGridPosition(page, '#n')).toEqual({ column: 1, row: 1 });
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 4, row: 1 });
+		expect(await getOverlaps(page)).toEqual([]);
+	});
+
+	test('removing an item cannot be undone', async ({ page }) => {
+		expect(await page.evaluate(() => (window as any).egg.cores['grid-a'].removeItem('b'))).toBe(true);
+		await page.waitForTimeout(300);
+		expect(await page.evaluate(() => (window as any).egg.cores['grid-a'].undo())).toBe(false);
+		expect(await page.locator('#b').count()).toBe(0);
+		expect(await getOverlaps(page)).toEqual([]);
+	});
+});
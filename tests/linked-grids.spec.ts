@@ -0,0 +1,58 @@
+import { test, expect, Page } from '@playwright/test';
+import { openFixture, getGridPosition, getEvents } from './fixtures/helpers';
+
+// Drag #c out of grid-a onto column 2, row 1 of grid-b
+async function dragAcross(page: Page) {
+	const c = (await page.locator('#c').boundingBox())!;
+	const b = (await page.locator('#grid-b').boundingBox())!;
+	await page.mouse.move(c.x + c.width / 2, c.y + c.height / 2);
+	await page.mouse.down();
+	await page.mouse.move(b.x + 108 + 50, b.y + 50, { steps: 20 });
+	await page.mouse.up();
+	await page.waitForTimeout(300);
+}
+
+test.describe('Linked grids', () => {
+	test.beforeEach(async ({ page }) => {
+		await openFixture(page);
+		await page.evaluate(() => {
+			(window as any).egg.setup({ algorithm: 'push', link: 'shared' }, 'grid-a');
+			(window as any).egg.setup({ algorithm: 'push', link: 'shared' }, 'grid-b');
+		});
+	});
+
+	test('dropping on a linked grid moves the item there', async ({ page }) => {
+		await dragAcross(page);
+
+		expect(await page.locator('#grid-b > #c').count()).toBe(1);
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 2, row: 1 });
+		expect(await getEvents(page, 'egg-transfer-out')).toEqual([expect.objectContaining({ grid: 'grid-a', item: 'c' })]);
+		expect(await getEvents(page, 'egg-transfer-in')).toEqual([expect.objectContaining({ grid: 'grid-b', item: 'c' })]);
+		expect(await getEvents(page, 'egg-drag-end')).toHaveLength(1);
+	});
+
+	test('an item moved back into an earlier grid takes its place there', async ({ page }) => {
+		// #e from grid-b onto column 4, row 1 of grid-a: grid-b's stylesheet comes later and must not keep a rule for it
+		const e = (await page.locator('#e').boundingBox())!;
+		const a = (await page.locator('#grid-a').boundingBox())!;
+		await page.mouse.move(e.x + e.width / 2, e.y + e.height / 2);
+		await page.mouse.down();
+		await page.mouse.move(a.x + 3 * 108 + 50, a.y + 50, { steps: 20 });
+		await page.mouse.up();
+		await page.waitForTimeout(300);
+
+		expect(await page.locator('#grid-a > #e').count()).toBe(1);
+		expect(await getGridPosition(page, '#e')).toEqual({ column: 4, row: 1 });
+		expect(await getEvents(page, 'egg-transfer-out')).toEqual([expect.objectContaining({ grid: 'grid-b', item: 'e' })]);
+	});
+
+	test('a target that cancels external-enter keeps the item in its grid', async ({ page }) => {
+		await page.evaluate(() => document.getElementById('grid-b')!.addEventListener('egg-external-enter', e => e.preventDefault()));
+		await dragAcross(page);
+
+		expect(await page.locator('#grid-a > #c').count()).toBe(1);
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 3, row: 1 });
+		expect(await getEvents(page, 'egg-transfer-in')).toHaveLength(0);
+		expect(await getEvents(page, 'egg-drag-cancel')).toHaveLength(1);
+	});
+});
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { openFixture } from './fixtures/helpers';
+
+test.describe('Marquee selection', () => {
+	test.beforeEach(async ({ page }) => {
+		await openFixture(page);
+		await page.evaluate(() => (window as any).egg.setup({ algorithm: 'push' }));
+	});
+
+	test('dragging across empty grid space selects the items it covers', async ({ page }) => {
+		const grid = (await page.locator('#grid-a').boundingBox())!;
+		// From the empty cell at column 4, row 2 to column 3, row 1
+		await page.mouse.move(grid.x + 3 * 108 + 50, grid.y + 108 + 50);
+		await page.mouse.down();
+		await page.mouse.move(grid.x + 2 * 108 + 50, grid.y + 50, { steps: 10 });
+		await page.mouse.up();
+
+		expect(await page.locator('[data-egg-selected]').evaluateAll(els => els.map(el => el.id))).toEqual(['c']);
+	});
+
+	test('pressing a child that is not an item leaves it alone', async ({ page }) => {
+		await page.evaluate(() => {
+			const input = document.createElement('input');
+			input.id = 'note';
+			input.style.gridColumn = '4'; input.style.gridRow = '2';
+			document.getElementById('grid-a')!.appendChild(input);
+		});
+		const input = (await page.locator('#note').boundingBox())!;
+		await page.mouse.move(input.x + input.width / 2, input.y + input.height / 2);
+		await page.mouse.down();
+		await page.mouse.move(input.x - 100, input.y - 50, { steps: 10 });
+		await page.mouse.up();
+
+		expect(await page.evaluate(() => document.activeElement?.id)).toBe('note');
+		expect(await page.locator('[data-egg-selected]').count()).toBe(0);
+	});
+});
@@ -0,0 +1,70 @@
+import { test, expect, CDPSession } from '@playwright/test';
+import { openFixture, getGridPosition, getEvents } from './fixtures/helpers';
+
+// Single-finger touch driven through CDP so Chromium produces real touch pointer events
+async function touch(cdp: CDPSession, type: 'touchStart' | 'touchMove' | 'touchEnd', x: number, y: number) {
+	await cdp.send('Input.dispatchTouchEvent', { type, touchPoints: type === 'touchEnd' ? [] : [{ x, y }] });
+}
+
+async function touchMoveTo(cdp: CDPSession, fromX: number, fromY: number, toX: number, toY: number, steps = 10) {
+	for (let i = 1; i <= steps; i++) {
+		await touch(cdp, 'touchMove', fromX + (toX - fromX) * i / steps, fromY + (toY - fromY) * i / steps);
+	}
+}
+
+test.use({ hasTouch: true });
+
+test.describe('Touch long-press', () => {
+	let cdp: CDPSession;
+
+	test.beforeEach(async ({ page }) => {
+		await openFixture(page);
+		await page.evaluate(() => (window as any).egg.setup({ algorithm: 'push' }));
+		cdp = await page.context().newCDPSession(page);
+	});
+
+	test('holding arms the press and the finger then drags the item', async ({ page }) => {
+		const item = (await page.locator('#c').boundingBox())!;
+		const x = item.x + item.width / 2, y = item.y + item.height / 2;
+
+		await touch(cdp, 'touchStart', x, y);
+		await page.waitForTimeout(500);
+		await expect(page.locator('#c')).toHaveAttribute('data-egg-press-armed', '');
+
+		await touchMoveTo(cdp, x, y, x + 108, y);
+		await touch(cdp, 'touchEnd', x + 108, y);
+		await page.waitForTimeout(300);
+
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 4, row: 1 });
+		expect(await getEvents(page, 'egg-drag-end')).toHaveLength(1);
+	});
+
+	test('moving before the delay cancels the press instead of dragging', async ({ page }) => {
+		const item = (await page.locator('#c').boundingBox())!;
+		const x = item.x + item.width / 2, y = item.y + item.height / 2;
+
+		await touch(cdp, 'touchStart', x, y);
+		await touchMoveTo(cdp, x, y, x + 108, y, 5);
+		await page.waitForTimeout(500);
+		await touch(cdp, 'touchEnd', x + 108, y);
+		await page.waitForTimeout(300);
+
+		await expect(page.locator('#c')).not.toHaveAttribute('data-egg-press-armed', '');
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 3, row: 1 });
+		expect(await getEvents(page, 'egg-drag-start')).toHaveLength(0);
+	});
+
+	test('a swipe over an item scrolls the page', async ({ page }) => {
+		const item = (await page.locator('#c').boundingBox())!;
+		const x = item.x + item.width / 2, y = item.y + item.height / 2;
+
+		await touch(cdp, 'touchStart', x, y);
+		await touchMoveTo(cdp, x, y, x, y - 80, 5);
+		await touch(cdp, 'touchEnd', x, y - 80);
+		await page.waitForTimeout(500);
+
+		expect(await page.evaluate(() => window.scrollY)).toBeGreaterThan(0);
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 3, row: 1 });
+		expect(await getEvents(page, 'egg-drag-start')).toHaveLength(0);
+	});
+});
@@ -0,0 +1,62 @@
+import { test, expect, Page } from '@playwright/test';
+import { openFixture, getGridPosition, getEvents } from './fixtures/helpers';
+
+// Drag #c from its centre to a point, in `steps` pointer moves
+async function dragTo(page: Page, x: number, y: number, steps = 10) {
+	const c = (await page.locator('#c').boundingBox())!;
+	await page.mouse.move(c.x + c.width / 2, c.y + c.height / 2);
+	await page.mouse.down();
+	await page.mouse.move(x, y, { steps });
+	await page.mouse.up();
+	await page.waitForTimeout(300);
+}
+
+test.describe('Trash zones', () => {
+	test.beforeEach(async ({ page }) => {
+		await openFixture(page);
+	});
+
+	test('dropping on a zone removes the item', async ({ page }) => {
+		await page.evaluate(() => (window as any).egg.setup({ algorithm: 'push', trash: { zones: '#trash' } }));
+		const trash = (await page.locator('#trash').boundingBox())!;
+		await dragTo(page, trash.x + trash.width / 2, trash.y + trash.height / 2);
+
+		expect(await page.locator('#c').count()).toBe(0);
+		expect(await getEvents(page, 'egg-item-remove')).toEqual([expect.objectContaining({ item: 'c' })]);
+		expect(await getEvents(page, 'egg-drag-end')).toEqual([expect.objectContaining({ item: 'c', removed: true })]);
+	});
+
+	test('vetoing item-remove keeps the item', async ({ page }) => {
+		await page.evaluate(() => {
+			(window as any).egg.setup({ algorithm: 'push', trash: { zones: '#trash' } });
+			document.getElementById('grid-a')!.addEventListener('egg-item-remove', e => e.preventDefault());
+		});
+		const trash = (await page.locator('#trash').boundingBox())!;
+		await dragTo(page, trash.x + trash.width / 2, trash.y + trash.height / 2);
+
+		expect(await page.locator('#grid-a > #c').count()).toBe(1);
+		expect(await getGridPosition(page, '#c')).toEqual({ column: 3, row: 1 });
+		expect(await getEvents(page, 'egg-drag-cancel')).toHaveLength(1);
+		expect(await getEvents(page, 'egg-drag-end')).toHaveLength(0);
+	});
+
+	test('with outside, dropping off the grid removes the item', async ({ page }) => {
+		await page.evaluate(() => (window as any).egg.setup({ algorithm: 'push', trash: { outside: true } }));
+		const grid = (await page.locator('#grid-a').boundingBox())!;
+		await dragTo(page, grid.x + grid.width + 40, grid.y + 50);
+
+		expect(await page.locator('#c').count()).toBe(0);
+		expect(await getEvents(page, 'egg-drag-end')).toEqual([expect.objectContaining({ removed: true })]);
+	});
+
+	test('with outside, a fast drag that stays inside the grid edge keeps the item', async ({ page }) => {
+		await page.evaluate(() => (window as any).egg.setup({ algorithm: 'push', trash: { outside: true } }));
+		const grid = (await page.locator('#grid-a').boundingBox())!;
+		// Two big steps: the predicted centre overshoots the left edge while the pointer stays inside
+		await dragTo(page, grid.x + 5, grid.y + 50, 2);
+
+		expect(await page.locator('#grid-a > #c').count()).toBe(1);
+		expect(await getEvents(page, 'egg-item-remove')).toHaveLength(0);
+		expect(await getEvents(page, 'egg-drag-end')).toEqual([expect.objectContaining({ item: 'c', removed: false })]);
+	});
+});
@@ -9,6 +9,8 @@ export interface ItemRect {
   row: number;
   width: number;
   height: number;
+  /** Pinned item — never moved by push or compaction */
+  static?: boolean;
 }
 
 export interface GridCell {
@@ -16,6 +18,12 @@ export interface GridCell {
   row: number;
 }
 
+/**
+ * Direction items float toward after a move; false disables compaction.
+ * `true` is the pre-direction spelling of "up".
+ */
+export type CompactionMode = "up" | "left" | "up-left" | boolean;
+
 export function itemsOverlap(a: ItemRect, b: ItemRect): boolean {
   return !(
     a.column + a.width <= b.column ||
@@ -25,44 +33,169 @@ export function itemsOverlap(a: ItemRect, b: ItemRect): boolean {
   );
 }
 
+/**
+ * Row-bucket occupancy index: each item is listed under every row it spans,
+ * so collision queries only touch the rows a rect covers.
+ */
+export interface OccupancyIndex {
+  add(item: ItemRect): void;
+  remove(item: ItemRect): void;
+  /** Items overlapping `rect`, excluding the item with the same id */
+  colliders(rect: ItemRect): ItemRect[];
+  /** Relocate an item, keeping its buckets in sync */
+  move(item: ItemRect, column: number, row: number): void;
+}
+
+export function createOccupancyIndex(items: ItemRect[]): OccupancyIndex {
+  const rows = new Map<number, Set<ItemRect>>();
+  const index: OccupancyIndex = {
+    add(item) {
+      for (let r = item.row; r < item.row + item.height; r++) {
+        let bucket = rows.get(r);
+        if (!bucket) rows.set(r, (bucket = new Set()));
+        bucket.add(item);
+      }
+    },
+    remove(item) {
+      for (let r = item.row; r < item.row + item.height; r++) {
+        rows.get(r)?.delete(item);
+      }
+    },
+    colliders(rect) {
+      const found = new Set<ItemRect>();
+      for (let r = rect.row; r < rect.row + rect.height; r++) {
+        const bucket = rows.get(r);
+        if (!bucket) continue;
+        for (const other of bucket) {
+          if (other.id !== rect.id && itemsOverlap(rect, other)) found.add(other);
+        }
+      }
+      return Array.from(found);
+    },
+    move(item, column, row) {
+      index.remove(item);
+      item.column = column;
+      item.row = row;
+      index.add(item);
+    },
+  };
+  for (const item of items) index.add(item);
+  return index;
+}
+
+/** Move an item below any static item it overlaps (static items never move). */
+export function skipStatics(index: OccupancyIndex, item: ItemRect): void {
+  let hit: ItemRect | undefined;
+  while ((hit = index.colliders(item).find((other) => other.static))) {
+    index.move(item, item.column, hit.row + hit.height);
+  }
+}
+
+/**
+ * Push sweep: the pusher and static items are settled first, then every item
+ * that could be hit (anything reaching below the pusher's top) is settled
+ * top-to-bottom, dropping just below whatever settled item it overlaps.
+ * Items only move down, so one pass resolves the whole cascade.
+ *
+ * A numeric 4th argument is the old recursion depth: it is ignored and a
+ * fresh index is built.
+ */
 export function pushDown(
   items: ItemRect[],
   moved: ItemRect,
   movedId: string,
-  depth = 0,
+  occupancy: OccupancyIndex | number = createOccupancyIndex(items),
 ): void {
-  if (depth > 50) return;
-  const colliders = items
+  const index =
+    typeof occupancy === "number" ? createOccupancyIndex(items) : occupancy;
+  const settled = createOccupancyIndex(
+    items.filter((it) => it === moved || it.id === movedId || it.static),
+  );
+  const pending = items
     .filter(
       (it) =>
-        it.id !== movedId && it.id !== moved.id && itemsOverlap(moved, it),
+        it !== moved &&
+        it.id !== movedId &&
+        !it.static &&
+        it.row + it.height > moved.row,
     )
-    .sort((a, b) => b.row - a.row || a.column - b.column);
-  for (const collider of colliders) {
-    const newRow = moved.row + moved.height;
-    if (collider.row < newRow) {
-      collider.row = newRow;
-      pushDown(items, collider, movedId, depth + 1);
+    .sort((a, b) => a.row - b.row || a.column - b.column);
+  for (const item of pending) {
+    let hits: ItemRect[];
+    while ((hits = settled.colliders(item)).length) {
+      const newRow = Math.max(...hits.map((hit) => hit.row + hit.height));
+      index.move(item, item.column, newRow);
     }
+    settled.add(item);
   }
 }
 
-export function compactUp(items: ItemRect[], excludeId: string): void {
+export function compactUp(
+  items: ItemRect[],
+  excludeId: string,
+  index = createOccupancyIndex(items),
+): boolean {
   const sorted = [...items]
-    .filter((it) => it.id !== excludeId)
+    .filter((it) => it.id !== excludeId && !it.static)
     .sort((a, b) => a.row - b.row || a.column - b.column);
+  let changed = false;
   for (const item of sorted) {
-    let iterations = 0;
-    while (item.row > 1 && iterations < 100) {
-      iterations++;
-      item.row -= 1;
-      const hasCollision = items.some(
-        (other) => other.id !== item.id && itemsOverlap(item, other),
-      );
-      if (hasCollision) {
-        item.row += 1;
-        break;
-      }
+    let row = item.row;
+    // Moving up one row only adds row - 1 to the span, so probe a single-row strip
+    while (
+      row > 1 &&
+      !index.colliders({ ...item, row: row - 1, height: 1 }).length
+    ) {
+      row--;
+    }
+    if (row !== item.row) {
+      index.move(item, item.column, row);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+export function compactLeft(
+  items: ItemRect[],
+  excludeId: string,
+  index = createOccupancyIndex(items),
+): boolean {
+  const sorted = [...items]
+    .filter((it) => it.id !== excludeId && !it.static)
+    .sort((a, b) => a.column - b.column || a.row - b.row);
+  let changed = false;
+  for (const item of sorted) {
+    let column = item.column;
+    while (
+      column > 1 &&
+      !index.colliders({ ...item, column: column - 1, width: 1 }).length
+    ) {
+      column--;
+    }
+    if (column !== item.column) {
+      index.move(item, column, item.row);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+export function applyCompaction(
+  items: ItemRect[],
+  excludeId: string,
+  mode: CompactionMode,
+  index = createOccupancyIndex(items),
+): void {
+  if (mode === "up" || mode === true) compactUp(items, excludeId, index);
+  else if (mode === "left") compactLeft(items, excludeId, index);
+  else if (mode === "up-left") {
+    // Alternate until stable — floating up can open room to the left and vice versa.
+    // Every pass that changes anything lowers some row or column, so this terminates.
+    while (true) {
+      const up = compactUp(items, excludeId, index);
+      const left = compactLeft(items, excludeId, index);
+      if (!up && !left) break;
     }
   }
 }
@@ -71,14 +204,16 @@ export function calculateLayout(
   items: ItemRect[],
   movedId: string,
   targetCell: GridCell,
+  compaction: CompactionMode = "up",
 ): ItemRect[] {
   const result = items.map((item) => ({ ...item }));
   const movedItem = result.find((it) => it.id === movedId);
-  if (!movedItem) return result;
-  movedItem.column = targetCell.column;
-  movedItem.row = targetCell.row;
-  pushDown(result, movedItem, movedId);
-  compactUp(result, movedId);
+  if (!movedItem || movedItem.static) return result;
+  const index = createOccupancyIndex(result);
+  index.move(movedItem, targetCell.column, targetCell.row);
+  skipStatics(index, movedItem);
+  pushDown(result, movedItem, movedId, index);
+  applyCompaction(result, movedId, compaction, index);
   return result;
 }
 